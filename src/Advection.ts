@@ -0,0 +1,184 @@
+import Field from "./Field";
+import FieldSeries from "./FieldSeries";
+import ParticlePool from "./ParticlePool";
+import VolumeField from "./VolumeField";
+import { IntegratorMethod, Velocity, integrate, metersPerDegree, toDegrees, wrapLongitude } from "./Integrator";
+
+export interface AdvectionOptions {
+    maxAge: number;
+    integrator: IntegratorMethod;
+    // degrees of latitude travelled per step for a speed of 1 m/s
+    scale: number;
+    // exaggeration of the vertical motion in volume fields, 1 by default
+    verticalScale?: number;
+}
+
+// scratch buffers, the advection runs on one thread at a time.
+// Samples have room for the vertical component of volume fields.
+const start = new Float64Array(4);
+const between = new Float64Array(4);
+const slope = new Float64Array(2);
+const target = new Float64Array(2);
+
+/**
+ * Move the particles one step through the field.
+ * Shared by the main thread and the particle worker.
+ * @param particles
+ * @param field
+ * @param options
+ * @param reseed restarts a particle older than maxAge on a random position,
+ * returns false if there is none and the particle waits for the next step
+ */
+export function advectParticles(
+    particles: ParticlePool,
+    field: Field | FieldSeries,
+    options: AdvectionOptions,
+    reseed: (index: number) => boolean
+) {
+    const maxAge = options.maxAge;
+    const scale = options.scale;
+    const integrator = options.integrator;
+
+    const velocity: Velocity = (lon, lat, out) => {
+        if (!field.sample(lon, lat, between)) {
+            return false;
+        }
+
+        toDegrees(between[0], between[1], lat, scale, out);
+
+        return true;
+    };
+
+    const age = particles.age;
+
+    for (let i = 0; i < particles.count; i++) {
+        if (age[i] > maxAge) {
+            // restart, on a random x,y
+            if (!reseed(i)) {
+                particles.visible[i] = 0;
+                continue;
+            }
+
+            age[i] = 0;
+        }
+
+        const x = particles.x[i];
+        const y = particles.y[i];
+
+        let moved = field.sample(x, y, start);
+
+        if (moved) {
+            toDegrees(start[0], start[1], y, scale, slope);
+            moved = integrate(integrator, x, y, velocity, target, slope);
+        }
+
+        if (!moved) {
+            age[i] = maxAge;
+            particles.visible[i] = 0;
+        } else {
+            // particles crossing the antimeridian go on from the other side
+            const xt = wrapLongitude(target[0]);
+            const yt = target[1];
+
+            if (yt > 90 || yt < -90) {
+                age[i] = maxAge;
+                particles.visible[i] = 0;
+                continue;
+            }
+
+            if (field.hasValueAt(xt, yt)) {
+                // Path from (x,y) to (xt,yt) is visible, so add this particle to the appropriate draw bucket.
+                particles.xt[i] = xt;
+                particles.yt[i] = yt;
+                particles.m[i] = start[2];
+                particles.u[i] = start[0];
+                particles.v[i] = start[1];
+                particles.visible[i] = 1;
+            } else {
+                // Particle isn't visible, but it still moves through the field.
+                particles.visible[i] = 0;
+                age[i] = maxAge;
+            }
+        }
+
+        age[i]++;
+    }
+}
+
+/**
+ * Move the particles one step through a volume field.
+ * The horizontal step is integrated at the height of the particle,
+ * the height then moves with the vertical wind at the start, held between the lowest and highest levels.
+ * @param particles
+ * @param volume
+ * @param options
+ * @param reseed restarts a particle older than maxAge on a random position and height,
+ * returns false if there is none and the particle waits for the next step
+ */
+export function advectVolumeParticles(
+    particles: ParticlePool,
+    volume: VolumeField,
+    options: AdvectionOptions,
+    reseed: (index: number) => boolean
+) {
+    const maxAge = options.maxAge;
+    const scale = options.scale;
+    const integrator = options.integrator;
+    // a speed of 1 m/s moves scale degrees per step
+    const secondsPerStep = scale * metersPerDegree * (options.verticalScale ?? 1);
+
+    let z = 0;
+
+    const velocity: Velocity = (lon, lat, out) => {
+        if (!volume.sample3(lon, lat, z, between)) {
+            return false;
+        }
+
+        toDegrees(between[0], between[1], lat, scale, out);
+
+        return true;
+    };
+
+    const age = particles.age;
+
+    for (let i = 0; i < particles.count; i++) {
+        if (age[i] > maxAge) {
+            if (!reseed(i)) {
+                particles.visible[i] = 0;
+                continue;
+            }
+
+            age[i] = 0;
+        }
+
+        const x = particles.x[i];
+        const y = particles.y[i];
+        z = particles.z[i];
+
+        let moved = volume.sample3(x, y, z, start);
+
+        if (moved) {
+            toDegrees(start[0], start[1], y, scale, slope);
+            moved = integrate(integrator, x, y, velocity, target, slope);
+        }
+
+        const xt = wrapLongitude(target[0]);
+        const yt = target[1];
+        const zt = Math.max(volume.bottom, Math.min(volume.top, z + start[3] * secondsPerStep));
+
+        if (!moved || yt > 90 || yt < -90 || !volume.sample3(xt, yt, zt, between)) {
+            age[i] = maxAge;
+            particles.visible[i] = 0;
+        } else {
+            particles.xt[i] = xt;
+            particles.yt[i] = yt;
+            particles.zt[i] = zt;
+            particles.m[i] = start[2];
+            particles.u[i] = start[0];
+            particles.v[i] = start[1];
+            particles.visible[i] = 1;
+        }
+
+        age[i]++;
+    }
+}
@@ -1,16 +1,35 @@
 import {
     Cartesian2,
-    Cartesian3,
+    Cartographic,
     EllipsoidGeodesic,
-    EllipsoidalOccluder,
-    Ellipsoid,
+    Event,
+    EventHelper,
+    JulianDate,
     Math as CesiumMath,
+    OrthographicOffCenterFrustum,
+    PerspectiveFrustum,
     Scene,
-    SceneTransforms
+    SceneMode,
+    destroyObject
 } from "cesium";
-import { NetCDFReader } from "netcdfjs";
 import Particle from "./Particle";
-import Field from "./Field";
+import ParticlePool from "./ParticlePool";
+import Field, { SeedFallback, SeedOptions, floorMod } from "./Field";
+import FieldSeries from "./FieldSeries";
+import VolumeField from "./VolumeField";
+import NetCDFDataset, { NetCDFOptions } from "./NetCDF";
+import GRIB2Dataset, { GRIB2Options } from "./GRIB2";
+import GeoTIFFDataset, { GeoTIFFOptions } from "./GeoTIFF";
+import { IntegratorMethod, metersPerDegree } from "./Integrator";
+import { advectParticles, advectVolumeParticles } from "./Advection";
+import WorkerSimulation from "./WorkerSimulation";
+import { segmentStride } from "./WorkerMessages";
+import { isCoordinateVisible, mapWidthInPixels, projectCoordinate, unprojectPixel } from "./Projection";
+import ColorScale, { ColorScaleOption, ColorSpace } from "./ColorScale";
+import SegmentBatch from "./SegmentBatch";
+import ScalarField from "./ScalarField";
+import Vector from "./Vector";
+import TerrainCache from "./TerrainCache";
 
 interface GFSRecord {
     header: {
@@ -24,53 +43,244 @@ interface GFSRecord {
         ny: number;
         parameterCategory: number;
         parameterNumber: number;
+        refTime?: string;
+        forecastTime?: number;
+        GRIB_VALID_TIME?: string;
     };
     data: [number];
 }
 
-interface ParticleOptions {
+export interface ParticleOptions {
     globalAlpha: number;
     lineWidth: number;
-    colorScale: string | string[];
+    // a CSS color, discrete colors, gradient stops or a palette name ("viridis", "turbo", "windy")
+    colorScale: ColorScaleOption;
     velocityScale: number;
+    // adjust the velocity scale to the camera after every move (default), velocityScale is kept if false
+    autoVelocityScale?: boolean;
     maxAge: number;
+    // number of particles, the maximum with particleDensity
     paths: number;
     frameRate: number;
+    // integration scheme of the advection, "euler" by default
+    integrator?: IntegratorMethod;
+    // "pixel": particles move about velocityScale pixels per frame, adjusted to the camera (default)
+    // "physical": particles move at the wind speed times timeCompression
+    speedMode?: "pixel" | "physical";
+    // simulated seconds per real second in the physical speed mode
+    timeCompression?: number;
+    // step the particles in a Web Worker instead of the main thread, except in a VolumeField
+    useWorker?: boolean;
+    // color space of the gradient interpolation, "rgb" by default
+    colorSpace?: ColorSpace;
+    // value the colors are picked for, "speed" by default. The windy palette needs a colorRange for direction and age.
+    colorBy?: "speed" | "direction" | "age" | "scalar";
+    // the variable colored by in the "scalar" mode
+    colorField?: ScalarField;
+    // values at the ends of the color scale, instead of the stop values or the range of the colored value
+    colorRange?: [number, number];
+    // height the particles are drawn at: meters above the ellipsoid, "terrain" on the terrain,
+    // or "field" at the height of the field level. On the globe surface if undefined.
+    height?: number | "terrain" | "field";
+    // exaggeration of the vertical motion in a VolumeField, 1 by default
+    verticalScale?: number;
+    // particles per square CSS pixel of the view covered by the field, e.g. 1 / 300.
+    // The particle count then follows the view after every camera move, up to paths.
+    particleDensity?: number;
+    // random pixels tried to restart a particle on a visible pixel with data, 10 by default
+    seedTries?: number;
+    // where particles restart when no such pixel is found, "extent" by default
+    seedFallback?: SeedFallback;
+    // "animationFrame": an own requestAnimationFrame loop (default),
+    // "postRender": drawn after the frames of the scene, requesting them in requestRenderMode while playing
+    renderLoop?: "animationFrame" | "postRender";
+    // clear the trails while the camera moves and restart them at moveEnd, by default in the postRender loop
+    clearOnMove?: boolean;
+}
+
+// pixels sampled across the view to estimate the area covered by the field
+const coverageLattice = 16;
+
+// values of the options taking a name
+const optionNames: { [K in keyof ParticleOptions]?: readonly ParticleOptions[K][] } = {
+    integrator: ["euler", "rk2", "rk4"],
+    speedMode: ["pixel", "physical"],
+    colorSpace: ["rgb", "hsl", "lab"],
+    colorBy: ["speed", "direction", "age", "scalar"],
+    seedFallback: ["extent", "none"],
+    renderLoop: ["animationFrame", "postRender"]
+};
+
+const requiredOptions: (keyof ParticleOptions)[] = [
+    "globalAlpha",
+    "lineWidth",
+    "colorScale",
+    "velocityScale",
+    "maxAge",
+    "paths",
+    "frameRate"
+];
+
+/**
+ * Check the options given to setOptions
+ * @param options
+ * @throws on the first invalid value
+ */
+function validateOptions(options: Partial<ParticleOptions>) {
+    for (const name of requiredOptions) {
+        if (name in options && options[name] === undefined) {
+            throw new Error(`${name} is required`);
+        }
+    }
+
+    for (const name of ["lineWidth", "velocityScale", "frameRate", "timeCompression", "particleDensity"] as const) {
+        const value = options[name];
+
+        if (value !== undefined && !(value > 0 && isFinite(value))) {
+            throw new Error(`${name} must be a positive number: ${value}`);
+        }
+    }
+
+    for (const name of ["maxAge", "paths", "seedTries"] as const) {
+        const value = options[name];
+
+        if (value !== undefined && !(Number.isInteger(value) && value >= (name === "paths" ? 0 : 1))) {
+            throw new Error(`${name} must be a ${name === "paths" ? "non-negative" : "positive"} integer: ${value}`);
+        }
+    }
+
+    const { globalAlpha, verticalScale, colorRange, height } = options;
+
+    if (globalAlpha !== undefined && !(globalAlpha >= 0 && globalAlpha <= 1)) {
+        throw new Error(`globalAlpha must be between 0 and 1: ${globalAlpha}`);
+    }
+
+    if (verticalScale !== undefined && !(verticalScale >= 0 && isFinite(verticalScale))) {
+        throw new Error(`verticalScale must not be negative: ${verticalScale}`);
+    }
+
+    if (colorRange !== undefined && !(colorRange[0] < colorRange[1])) {
+        throw new Error(`colorRange must be ascending: ${colorRange}`);
+    }
+
+    if (
+        typeof height === "number" ? !isFinite(height) : height !== undefined && !["terrain", "field"].includes(height)
+    ) {
+        throw new Error(`invalid height: ${height}`);
+    }
+
+    for (const name of Object.keys(optionNames) as (keyof typeof optionNames)[]) {
+        const value = options[name];
+
+        if (value !== undefined && !(optionNames[name] as readonly unknown[]).includes(value)) {
+            throw new Error(`invalid ${name}: '${value}', use ${optionNames[name]!.join(", ")}`);
+        }
+    }
+}
+
+/**
+ * Check the color options together, the stops of the windy palette being speeds
+ * @param options
+ * @throws if directions or ages would be colored by speeds
+ */
+function validateColorOptions(options: ParticleOptions) {
+    const { colorScale, colorBy, colorRange } = options;
+
+    if (colorScale === "windy" && (colorBy === "direction" || colorBy === "age") && !colorRange) {
+        throw new Error(`the windy palette is in m/s, give a colorRange to color by ${colorBy}`);
+    }
+}
+
+/**
+ * Wind at a location, returned by pickWind and sampleAt
+ */
+export interface WindSample {
+    longitude: number;
+    latitude: number;
+    u: number;
+    v: number;
+    // in the unit of the field, m/s for wind
+    speed: number;
+    // meteorological direction the wind blows from, in degrees clockwise from north
+    directionFrom: number;
+    // column and row of the grid point at or before the location, in the field (or the nearest step of a series)
+    cell: { i: number; j: number };
 }
 
-const scratchScreenPosition = new Cartesian2();
 const geodesic = new EllipsoidGeodesic();
+const scratchPixel = new Cartesian2();
+
+/**
+ * Valid time of a grib2json record, either from the gdal metadata or from refTime + forecastTime (in hours).
+ * @param record
+ */
+function validTimeOf(record: GFSRecord) {
+    const header = record.header;
+
+    if (header.GRIB_VALID_TIME) {
+        const seconds = parseFloat(header.GRIB_VALID_TIME);
+
+        return JulianDate.fromDate(new Date(seconds * 1000));
+    }
+
+    if (header.refTime) {
+        const refTime = JulianDate.fromIso8601(header.refTime);
+
+        return JulianDate.addHours(refTime, header.forecastTime ?? 0, new JulianDate());
+    }
 
-function indexFor(m: number, min: number, max: number, colorScale: string[]) {
-    return Math.max(
-        0,
-        Math.min(colorScale.length - 1, Math.round(((m - min) / (max - min)) * (colorScale.length - 1)))
-    );
+    return undefined;
 }
 
 class CesiumParticles {
     private _scene?: Scene;
     private _canvas?: HTMLCanvasElement;
     private _ctx?: CanvasRenderingContext2D;
-    field?: Field;
+    private _field?: Field | FieldSeries | VolumeField;
     options: ParticleOptions;
-    private _particles?: Particle[];
-    starting = false;
-    forceStop = false;
+    private _particles?: ParticlePool;
+    // position picked by the field when a particle restarts
+    private _seed: Particle = { age: 0, x: 0, y: 0 };
+    private _eventHelper = new EventHelper();
+    private _resizeObserver?: ResizeObserver;
+    // size of the view in CSS pixels, the unit the trails are drawn in
+    private _width = 0;
+    private _height = 0;
+    private _paused = false;
+    // the camera is moving and the trails are cleared
+    private _moving = false;
+    private _removePostRender?: () => void;
+    private _simulation?: WorkerSimulation;
+    private _time = new JulianDate();
+    private _colorScale: ColorScale;
+    private _batch = new SegmentBatch();
+    private _terrain = new TerrainCache();
+    // width of a copy of the world on the 2D map, 0 in the other scene modes
+    private _mapWidth = 0;
     _then: number = -1;
     animationLoop: number = -1;
     _velocityScale: number;
 
+    /**
+     * Raised by setOptions with the particles and the names of the changed options
+     */
+    readonly optionsChanged = new Event<(particles: CesiumParticles, changed: (keyof ParticleOptions)[]) => void>();
+
+    /**
+     * Raised with the particles when another field is assigned
+     */
+    readonly fieldChanged = new Event<(particles: CesiumParticles) => void>();
+
     constructor(options: ParticleOptions) {
+        validateColorOptions(options);
+
         this.options = options;
 
         this._velocityScale = options.velocityScale;
+        this._colorScale = new ColorScale(options.colorScale, { colorSpace: options.colorSpace });
 
-        window.addEventListener("resize", () => {
-            setTimeout(() => {
-                this._onResize();
-            }, 100);
-        });
+        this.animate = this.animate.bind(this);
+        this._onPostRender = this._onPostRender.bind(this);
     }
 
     get scene() {
@@ -89,8 +299,50 @@ class CesiumParticles {
         return this._particles!;
     }
 
+    /**
+     * whether the particles are added to a scene
+     */
+    get isAdded() {
+        return this._scene !== undefined;
+    }
+
+    get paused() {
+        return this._paused;
+    }
+
+    /**
+     * the color scale built from the colorScale option
+     */
+    get colorScale() {
+        return this._colorScale;
+    }
+
+    /**
+     * Wind the particles move in, particles in a VolumeField move in 3D and are drawn at their own height
+     */
+    get field() {
+        return this._field;
+    }
+
+    set field(field: Field | FieldSeries | VolumeField | undefined) {
+        this._field = field;
+        this.fieldChanged.raiseEvent(this);
+    }
+
+    /**
+     * Follow the size and resolution of the scene canvas.
+     * The particles keep their positions, the velocity scale and the particle count follow the new view.
+     */
     _onResize() {
-        this.adjustSize();
+        if (!this.adjustSize() || this.scene.mode === SceneMode.MORPHING) {
+            return;
+        }
+
+        this._adjustVelocityScale();
+
+        if (this.options.particleDensity !== undefined) {
+            this._resizeParticles();
+        }
     }
 
     addToCesiumScene(scene: Scene) {
@@ -98,6 +350,10 @@ class CesiumParticles {
             throw new Error("field is required!");
         }
 
+        if (this.isAdded) {
+            throw new Error("particles are already added to a scene!");
+        }
+
         this._scene = scene;
 
         const canvas = document.createElement("canvas");
@@ -111,80 +367,322 @@ class CesiumParticles {
         const cesiumWidget = this._scene.canvas.parentNode;
         cesiumWidget!.appendChild(this.canvas);
 
-        this._particles = this.prepareParticles();
-        this.animate = this.animate.bind(this);
+        this._resetParticles();
+
+        // the container may be resized without the window, e.g. by a side panel
+        this._resizeObserver = new ResizeObserver(() => this._onResize());
+        this._resizeObserver.observe(cesiumWidget as Element);
+
+        this._eventHelper.add(this._scene.camera.moveStart, () => {
+            if (this.options.clearOnMove ?? this.options.renderLoop === "postRender") {
+                this._moving = true;
+                this._clear();
+            }
+        });
+
+        this._eventHelper.add(this._scene.camera.moveEnd, () => {
+            this._moving = false;
+
+            // the view is measured again once the morph completes
+            if (this.scene.mode === SceneMode.MORPHING) {
+                return;
+            }
+
+            this._adjustVelocityScale();
+
+            if (this.options.particleDensity !== undefined) {
+                this._resizeParticles();
+            }
+        });
+
+        // terrain heights are sampled again once the tiles of the view are loaded
+        this._terrain.clear();
+        this._eventHelper.add(this._scene.globe.tileLoadProgressEvent, (queued: number) => {
+            if (queued === 0 && this.options.height === "terrain") {
+                this._terrain.clear();
+            }
+        });
+
+        // the trails of the previous mode are cleared, the particles restart on the view of the new one
+        this._eventHelper.add(this._scene.morphStart, () => {
+            this._clear();
+        });
+
+        this._eventHelper.add(this._scene.morphComplete, () => {
+            this._clear();
+            this._terrain.clear();
+            this._adjustVelocityScale();
+            this._resetParticles();
+        });
+
+        // the scene is updated with the time of the viewer's clock
+        this._eventHelper.add(this._scene.preUpdate, (scene: Scene, time: JulianDate) => {
+            JulianDate.clone(time, this._time);
+
+            if (this.field instanceof FieldSeries) {
+                this.field.setTime(time);
+            }
+        });
+
+        if (!this._paused) {
+            this._startAnimation();
+        }
+    }
 
+    /**
+     * Remove the canvas and every listener from the scene.
+     * The particles can be added to a scene again later.
+     */
+    removeFromScene() {
+        if (!this.isAdded) {
+            return;
+        }
+
+        this._stopAnimation();
+
+        this._resizeObserver?.disconnect();
+        this._resizeObserver = undefined;
+        this._eventHelper.removeAll();
+
+        this._simulation?.terminate();
+        this._simulation = undefined;
+
+        this._canvas?.parentNode?.removeChild(this._canvas);
+
+        this._canvas = undefined;
+        this._ctx = undefined;
+        this._particles = undefined;
+        this._scene = undefined;
+        this._moving = false;
+        this._width = 0;
+        this._height = 0;
+    }
+
+    /**
+     * Stop the animation loop, keeping the current trails on screen.
+     */
+    pause() {
+        this._paused = true;
+        this._stopAnimation();
+    }
+
+    resume() {
+        if (!this._paused) {
+            return;
+        }
+
+        this._paused = false;
+
+        if (this.isAdded) {
+            this._startAnimation();
+        }
+    }
+
+    _startAnimation() {
         this._then = Date.now();
+
+        if (this.options.renderLoop === "postRender") {
+            this._removePostRender = this.scene.postRender.addEventListener(this._onPostRender);
+            this.scene.requestRender();
+            return;
+        }
+
         this.animate();
+    }
+
+    _stopAnimation() {
+        cancelAnimationFrame(this.animationLoop);
+        this.animationLoop = -1;
 
-        this._scene.camera.moveEnd.addEventListener(() => {
+        this._removePostRender?.();
+        this._removePostRender = undefined;
+    }
+
+    isDestroyed() {
+        return false;
+    }
+
+    /**
+     * Remove the particles from the scene and release the field.
+     * Once destroyed, the object should not be used.
+     */
+    destroy() {
+        this.removeFromScene();
+
+        this.field?.release();
+        this.field = undefined;
+
+        return destroyObject(this);
+    }
+
+    /**
+     * Change options while the particles run.
+     * Every value is checked first, no option changes if one of them is invalid.
+     * Trails keep their look until they fade, the particles are kept unless useWorker or seedFallback change.
+     * @param options the options to change, undefined resets an optional one
+     * @throws if a value is invalid
+     */
+    setOptions(options: Partial<ParticleOptions>) {
+        validateOptions(options);
+
+        const previous = this.options;
+        const changed = (Object.keys(options) as (keyof ParticleOptions)[]).filter(
+            (name) => options[name] !== previous[name]
+        );
+
+        if (changed.length === 0) {
+            return;
+        }
+
+        const has = (...names: (keyof ParticleOptions)[]) => names.some((name) => changed.includes(name));
+        const next = { ...previous, ...options };
+
+        validateColorOptions(next);
+
+        // built before anything changes, invalid colors throw
+        const colorScale = has("colorScale", "colorSpace")
+            ? new ColorScale(next.colorScale, { colorSpace: next.colorSpace })
+            : this._colorScale;
+
+        this.options = next;
+        this._colorScale = colorScale;
+
+        if (next.autoVelocityScale === false) {
+            this._velocityScale = next.velocityScale;
+        } else if (has("autoVelocityScale") && this.isAdded) {
             this._adjustVelocityScale();
-        });
+        }
+
+        if (this.isAdded) {
+            if (has("useWorker", "seedFallback")) {
+                this._clear();
+                this._resetParticles();
+            } else if (has("paths", "particleDensity")) {
+                this._resizeParticles();
+            }
+
+            if (has("height")) {
+                this._terrain.clear();
+                this._clear();
+            }
+
+            if (has("clearOnMove")) {
+                this._moving = false;
+            }
+
+            if (has("renderLoop") && !this._paused) {
+                this._stopAnimation();
+                this._startAnimation();
+            }
+        }
+
+        this.optionsChanged.raiseEvent(this, changed);
     }
 
     _adjustVelocityScale() {
+        // a locked velocity scale is kept through camera moves
+        if (this.options.autoVelocityScale === false) {
+            this._velocityScale = this.options.velocityScale;
+            return;
+        }
+
         const pixelDistance = this._calcPixelDistance();
         const pixelSpeed = 1; // in pixel
-        const meterPerDegree = 111111;
 
-        this._velocityScale = (pixelDistance * pixelSpeed) / meterPerDegree;
+        this._velocityScale = (pixelDistance * pixelSpeed) / metersPerDegree;
     }
 
-    _calcPixelDistance() {
-        const scene = this._scene as Scene;
+    /**
+     * degrees of latitude travelled per frame for a speed of 1 m/s
+     */
+    _stepScale() {
+        if (this.options.speedMode === "physical") {
+            const secondsPerFrame = this.options.frameRate / 1000;
 
-        const width = scene.canvas.clientWidth;
-        const height = scene.canvas.clientHeight;
+            return ((this.options.timeCompression ?? 1) * secondsPerFrame) / metersPerDegree;
+        }
 
-        let centerX = (width / 2) | 0;
-        let centerY = (height / 2) | 0;
+        return this._velocityScale;
+    }
 
-        const globe = scene.globe;
+    /**
+     * Ground distance in meters covered by a pixel, measured near the center of the view
+     */
+    _calcPixelDistance() {
+        const canvas = this.scene.canvas;
+        const width = canvas.clientWidth;
+        const height = canvas.clientHeight;
 
-        let leftPosition;
-        let rightPosition;
+        // the center first, then a lattice over the view for a globe off center
+        let pixelDistance = this._pixelDistanceAt((width / 2) | 0, (height / 2) | 0);
 
-        let leftCartographic;
-        let rightCartographic;
+        for (let k = 0; k < coverageLattice * coverageLattice && pixelDistance === -1; k++) {
+            const i = k % coverageLattice;
+            const j = (k - i) / coverageLattice;
 
-        let pixelDistance = -1;
+            pixelDistance = this._pixelDistanceAt(
+                (((i + 0.5) / coverageLattice) * width) | 0,
+                (((j + 0.5) / coverageLattice) * height) | 0
+            );
+        }
 
-        for (let x = centerX; x < width; x++) {
-            for (let y = centerY; y < height; y++) {
-                const left = scene.camera.getPickRay(new Cartesian2(x, y));
-                const right = scene.camera.getPickRay(new Cartesian2(x + 1, y));
+        return pixelDistance === -1 ? this._estimatePixelDistance() : pixelDistance;
+    }
 
-                if (!left) {
-                    continue;
-                }
+    /**
+     * Distance between the ground under a pixel and under its right neighbour
+     * @returns -1 off the globe
+     */
+    _pixelDistanceAt(x: number, y: number) {
+        const scene = this.scene;
+        const globe = scene.globe;
 
-                if (!right) {
-                    continue;
-                }
+        scratchPixel.x = x;
+        scratchPixel.y = y;
+        const left = scene.camera.getPickRay(scratchPixel);
+        const leftPosition = left && globe.pick(left, scene);
 
-                leftPosition = globe.pick(left, scene);
-                rightPosition = globe.pick(right, scene);
+        if (!leftPosition) {
+            return -1;
+        }
 
-                if (!leftPosition) {
-                    continue;
-                }
+        const leftCartographic = globe.ellipsoid.cartesianToCartographic(leftPosition);
 
-                if (!rightPosition) {
-                    continue;
-                }
+        scratchPixel.x = x + 1;
+        const right = scene.camera.getPickRay(scratchPixel);
+        const rightPosition = right && globe.pick(right, scene);
 
-                leftCartographic = globe.ellipsoid.cartesianToCartographic(leftPosition);
-                rightCartographic = globe.ellipsoid.cartesianToCartographic(rightPosition);
+        if (!rightPosition) {
+            return -1;
+        }
 
-                geodesic.setEndPoints(leftCartographic, rightCartographic);
+        const rightCartographic = globe.ellipsoid.cartesianToCartographic(rightPosition);
 
-                pixelDistance = geodesic.surfaceDistance;
+        geodesic.setEndPoints(leftCartographic, rightCartographic);
 
-                return pixelDistance;
-            }
+        return geodesic.surfaceDistance;
+    }
+
+    /**
+     * Size of a pixel from the camera frustum and height, when no pixel shows the globe
+     */
+    _estimatePixelDistance() {
+        const camera = this.scene.camera;
+        const frustum = camera.frustum;
+        const canvas = this.scene.canvas;
+
+        if (
+            frustum instanceof OrthographicOffCenterFrustum &&
+            frustum.left !== undefined &&
+            frustum.right !== undefined
+        ) {
+            return (frustum.right - frustum.left) / canvas.clientWidth;
         }
 
-        throw new Error("should not be reached");
+        const height = Math.max(1, camera.positionCartographic.height);
+        const fovy = (frustum instanceof PerspectiveFrustum && frustum.fovy) || CesiumMath.PI_OVER_THREE;
+
+        return (2 * height * Math.tan(fovy / 2)) / canvas.clientHeight;
     }
 
     static async createFromGFSUrl(gfsUrl: string, particleOptions: ParticleOptions) {
@@ -193,59 +691,103 @@ class CesiumParticles {
         const res = await fetch(gfsUrl);
         const json = await res.json();
 
-        windParticle.field = CesiumParticles.createFieldFromGFS(json);
+        windParticle.field = CesiumParticles.createFieldSeriesFromGFS(json);
+
+        if (windParticle.field.steps.length === 1) {
+            windParticle.field = windParticle.field.steps[0].field;
+        }
 
         return windParticle;
     }
 
-    static async createFromNetCDFUrl(netCDFUrl: string, particleOptions: ParticleOptions) {
+    static async createFromNetCDFUrl(
+        netCDFUrl: string,
+        particleOptions: ParticleOptions,
+        netCDFOptions: NetCDFOptions = {}
+    ) {
         const windParticle = new CesiumParticles(particleOptions);
 
         const res = await fetch(netCDFUrl);
         const buffer = await res.arrayBuffer();
 
-        const NetCDF = new NetCDFReader(buffer);
+        windParticle.field = new NetCDFDataset(buffer, netCDFOptions).read();
 
-        const arrayToMap = function (array: any) {
-            return array.reduce((map: any, object: any) => {
-                map[object.name] = object;
-                return map;
-            }, {});
-        };
+        return windParticle;
+    }
+
+    /**
+     * Load u/v wind from raw GRIB2 data on a regular lat/lon grid
+     * @param grib2Url
+     * @param particleOptions
+     * @param grib2Options level of the u/v messages
+     */
+    static async createFromGRIB2Url(
+        grib2Url: string,
+        particleOptions: ParticleOptions,
+        grib2Options: GRIB2Options = {}
+    ) {
+        const windParticle = new CesiumParticles(particleOptions);
+
+        const res = await fetch(grib2Url);
+        const buffer = await res.arrayBuffer();
+
+        windParticle.field = new GRIB2Dataset(buffer, grib2Options).read();
+
+        return windParticle;
+    }
 
-        const dimensions = arrayToMap(NetCDF.dimensions);
+    /**
+     * Load wind from a two-band GeoTIFF or Cloud-Optimized GeoTIFF in EPSG:4326
+     * @param geoTIFFUrl
+     * @param particleOptions
+     * @param geoTIFFOptions band layout and selection
+     */
+    static async createFromGeoTIFFUrl(
+        geoTIFFUrl: string,
+        particleOptions: ParticleOptions,
+        geoTIFFOptions: GeoTIFFOptions = {}
+    ) {
+        const windParticle = new CesiumParticles(particleOptions);
 
-        const lonArray = new Float32Array(NetCDF.getDataVariable("longitude").flat());
-        const latArray = new Float32Array(NetCDF.getDataVariable("latitude").flat());
+        const res = await fetch(geoTIFFUrl);
+        const buffer = await res.arrayBuffer();
 
-        const xmin = Math.min(...lonArray);
-        const xmax = Math.max(...lonArray);
-        const ymin = Math.min(...latArray);
-        const ymax = Math.max(...latArray);
+        windParticle.field = await new GeoTIFFDataset(buffer, geoTIFFOptions).read();
 
-        const u = new Float32Array(NetCDF.getDataVariable("u10").flat());
-        const v = new Float32Array(NetCDF.getDataVariable("v10").flat());
+        return windParticle;
+    }
+
+    /**
+     * Group the records by valid time and build one field per time.
+     * Records without time information are treated as a single step.
+     * @param data
+     */
+    static createFieldSeriesFromGFS(data: GFSRecord[]) {
+        const groups = new Map<string, { time: JulianDate; records: GFSRecord[] }>();
+        const now = JulianDate.now();
 
-        const cols = dimensions.longitude.size;
-        const rows = dimensions.latitude.size;
+        data.forEach(function (record) {
+            const time = validTimeOf(record) ?? now;
+            const key = JulianDate.toIso8601(time);
 
-        const deltaX = (xmax - xmin) / cols;
-        const deltaY = (ymax - ymin) / rows;
+            let group = groups.get(key);
 
-        windParticle.field = new Field({
-            xmin: xmin,
-            ymin: ymin,
-            xmax: xmax,
-            ymax: ymax,
-            deltaX: deltaX,
-            deltaY: deltaY,
-            cols: cols,
-            rows: rows,
-            us: u,
-            vs: v
+            if (!group) {
+                group = { time: time, records: [] };
+                groups.set(key, group);
+            }
+
+            group.records.push(record);
         });
 
-        return windParticle;
+        const steps = Array.from(groups.values()).map((group) => {
+            return {
+                time: group.time,
+                field: CesiumParticles.createFieldFromGFS(group.records)
+            };
+        });
+
+        return new FieldSeries(steps);
     }
 
     static createFieldFromGFS(data: GFSRecord[]) {
@@ -292,248 +834,583 @@ class CesiumParticles {
         return vectorField;
     }
 
+    /**
+     * Fit the canvas to the CSS size of the scene canvas, at the resolution of its drawing buffer,
+     * which follows resolutionScale and useBrowserRecommendedResolution
+     * @returns whether the CSS size changed
+     */
     adjustSize() {
         const canvas = this.canvas;
+        const sceneCanvas = this.scene.canvas;
+
+        const width = sceneCanvas.clientWidth;
+        const height = sceneCanvas.clientHeight;
+        const resized = width !== this._width || height !== this._height;
 
-        const { width, height } = this.scene.canvas;
-        const devicePixelRatio = 1;
+        if (!resized && canvas.width === sceneCanvas.width && canvas.height === sceneCanvas.height) {
+            return false;
+        }
 
-        canvas.width = width * devicePixelRatio;
-        canvas.height = height * devicePixelRatio;
+        // resizing the canvas clears it and resets the context
+        canvas.width = sceneCanvas.width;
+        canvas.height = sceneCanvas.height;
 
         canvas.style.width = width + "px";
         canvas.style.height = height + "px";
-    }
-
-    moveParticles() {
-        const canvas = this.ctx.canvas;
-        const width = canvas.width;
-        const height = canvas.height;
 
-        // 清空组
-        const maxAge = this.options.maxAge;
-        const velocityScale = this._velocityScale;
+        this._width = width;
+        this._height = height;
 
-        const particles = this.particles;
-        const field = this.field!;
+        // drawing buffer pixels per CSS pixel, positions are drawn in CSS pixels
+        this.ctx.setTransform(
+            width > 0 ? sceneCanvas.width / width : 1,
+            0,
+            0,
+            height > 0 ? sceneCanvas.height / height : 1,
+            0,
+            0
+        );
 
-        for (let i = 0; i < particles.length; i++) {
-            const particle = particles[i];
+        return resized;
+    }
 
-            if (particle.age > maxAge) {
-                particle.age = 0;
+    moveParticles() {
+        const width = this._width;
+        const height = this._height;
 
-                // restart, on a random x,y
-                field.assignRandomPosition(particle, width, height, this.unproject.bind(this));
-            }
+        const field = this.field!;
+        const unproject = this.unproject.bind(this);
 
-            const x = particle.x;
-            const y = particle.y;
+        const options = {
+            maxAge: this.options.maxAge,
+            integrator: this.options.integrator ?? "euler",
+            scale: this._stepScale(),
+            verticalScale: this.options.verticalScale
+        };
 
-            const vector = field.interpolatedValueAt(x, y);
+        const particles = this.particles;
+        const seed = this._seed;
 
-            if (vector === null) {
-                particle.age = maxAge;
-            } else {
-                const xt = x + vector.u * velocityScale;
-                const yt = y + vector.v * velocityScale;
+        const seedOptions = this._seedOptions();
 
-                // step1
-                if (xt > 180 || xt < -180) {
-                    particle.age = maxAge;
-                    particle.xt = undefined;
-                    continue;
-                }
+        const reseed = (index: number) => {
+            if (!field.assignRandomPosition(seed, width, height, unproject, seedOptions)) {
+                return false;
+            }
 
-                if (yt > 90 || yt < -90) {
-                    particle.age = maxAge;
-                    particle.yt = undefined;
-                    continue;
-                }
+            particles.x[index] = seed.x;
+            particles.y[index] = seed.y;
+            particles.z[index] = seed.z ?? 0;
 
-                if (field.hasValueAt(xt, yt)) {
-                    // Path from (x,y) to (xt,yt) is visible, so add this particle to the appropriate draw bucket.
-                    particle.xt = xt;
-                    particle.yt = yt;
-                    particle.m = vector.m;
-                } else {
-                    // Particle isn't visible, but it still moves through the field.
-                    particle.xt = undefined;
-                    particle.yt = undefined;
-                    particle.age = maxAge;
-                }
-            }
+            return true;
+        };
 
-            particle.age++;
+        if (field instanceof VolumeField) {
+            advectVolumeParticles(particles, field, options, reseed);
+        } else {
+            advectParticles(particles, field, options, reseed);
         }
     }
 
+    /**
+     * Erase the trails
+     */
+    _clear() {
+        this.ctx.clearRect(0, 0, this._width, this._height);
+    }
+
     fadeIn() {
         const prev = this.ctx.globalCompositeOperation; // lighter
 
         this.ctx.globalCompositeOperation = "destination-in";
-        this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+        this.ctx.fillRect(0, 0, this._width, this._height);
         this.ctx.globalCompositeOperation = prev;
     }
 
-    drawParticles() {
+    /**
+     * fade the trails and set up the stroke style
+     */
+    _beginDraw() {
         this.fadeIn();
 
+        this._mapWidth = mapWidthInPixels(this.scene);
+
         this.ctx.globalAlpha = this.options.globalAlpha;
         this.ctx.fillStyle = "rgba(0, 0, 0, " + this.options.globalAlpha + ")";
         this.ctx.lineWidth = this.options.lineWidth;
+    }
 
-        const range = this.field!.range;
+    drawParticles() {
+        this._beginDraw();
 
-        const min = range[0];
-        const max = range[1];
+        const range = this.colorRange();
 
         const particles = this.particles;
+        const volume = this.field instanceof VolumeField;
 
-        let intersected = false;
-        let unintersectedCount = 0;
-        let oldCount = 0;
-
-        for (let i = 0; i < particles.length; i++) {
-            if (particles[i].age > this.options.maxAge) {
-                oldCount++;
+        for (let i = 0; i < particles.count; i++) {
+            if (particles.age[i] > this.options.maxAge) {
                 continue;
             }
 
-            if (!particles[i].xt) {
+            if (particles.visible[i] === 0) {
                 continue;
             }
 
-            if (!particles[i].yt) {
+            const x = particles.x[i];
+            const y = particles.y[i];
+            const xt = particles.xt[i];
+            const yt = particles.yt[i];
+            const z = volume ? particles.z[i] : undefined;
+            const zt = volume ? particles.zt[i] : undefined;
+
+            // steps ending out of view are not drawn
+            if (!this.intersectsCoordinate([xt, yt], zt)) {
                 continue;
             }
 
-            intersected = this.intersectsCoordinate([particles[i].xt!, particles[i].yt!]);
+            const value = this.colorValue(x, y, particles.m[i], particles.u[i], particles.v[i], particles.age[i]);
+
+            if (this.addSegment(x, y, xt, yt, this._colorScale.bucketFor(value, range), z, zt)) {
+                particles.x[i] = xt;
+                particles.y[i] = yt;
+                particles.z[i] = particles.zt[i];
+            }
+        }
 
-            if (!intersected) {
-                unintersectedCount++;
+        this._batch.stroke(this.ctx, this._colorScale.colors);
+    }
+
+    /**
+     * Draw the segments posted by the particle worker
+     * @param segments packed x, y, xt, yt, m, u, v, age
+     * @param count
+     */
+    drawSegments(segments: Float32Array, count: number) {
+        this._beginDraw();
+
+        const range = this.colorRange();
+
+        for (let i = 0; i < count; i++) {
+            const offset = i * segmentStride;
+            const x = segments[offset];
+            const y = segments[offset + 1];
+            const xt = segments[offset + 2];
+            const yt = segments[offset + 3];
+
+            if (!this.intersectsCoordinate([xt, yt])) {
                 continue;
             }
 
-            this.drawCoordsParticle(particles[i], min, max);
+            const value = this.colorValue(
+                x,
+                y,
+                segments[offset + 4],
+                segments[offset + 5],
+                segments[offset + 6],
+                segments[offset + 7]
+            );
+
+            this.addSegment(x, y, xt, yt, this._colorScale.bucketFor(value, range));
+        }
+
+        this._batch.stroke(this.ctx, this._colorScale.colors);
+    }
+
+    /**
+     * Queue the path of a particle from (x, y) to (xt, yt) for its color bucket
+     * @param z height of the start, from the height option if undefined
+     * @param zt height of the end
+     * @returns whether both ends are on screen, the particle then moves to the end
+     */
+    addSegment(x: number, y: number, xt: number, yt: number, bucket: number, z?: number, zt?: number) {
+        const pointPrev = this.project([x, y], z);
+        const pointNext = this.project([xt, yt], zt);
+
+        if (!pointPrev || !pointNext) {
+            return false;
+        }
+
+        const mapWidth = this._mapWidth;
+
+        if (mapWidth > 0) {
+            this._addMapSegment(bucket, pointPrev, pointNext, mapWidth);
+            return true;
+        }
+
+        // a step across the antimeridian may have its ends on both edges of a flat map, it is skipped
+        if (Math.abs(xt - x) > 180 && Math.abs(pointNext[0] - pointPrev[0]) > this._width / 2) {
+            return true;
+        }
+
+        this._batch.add(bucket, pointPrev[0], pointPrev[1], pointNext[0], pointNext[1]);
+
+        return true;
+    }
+
+    /**
+     * Queue a segment on every copy of the world shown by the 2D map
+     * @param bucket
+     * @param pointPrev
+     * @param pointNext
+     * @param mapWidth width of a copy in pixels
+     */
+    _addMapSegment(bucket: number, pointPrev: [number, number], pointNext: [number, number], mapWidth: number) {
+        const x0 = pointPrev[0];
+        // the end is moved to the copy of the start, for steps across the antimeridian
+        const x1 = x0 + floorMod(pointNext[0] - x0 + mapWidth / 2, mapWidth) - mapWidth / 2;
+
+        const first = Math.ceil(-Math.max(x0, x1) / mapWidth);
+        const last = Math.floor((this._width - Math.min(x0, x1)) / mapWidth);
+
+        for (let k = first; k <= last; k++) {
+            this._batch.add(bucket, x0 + k * mapWidth, pointPrev[1], x1 + k * mapWidth, pointNext[1]);
         }
+    }
 
-        // console.info(`unintersected Count: ${particles.length} / ${unintersectedCount}`);
-        // console.info(`old Count: ${particles.length} / ${oldCount}`);
+    /**
+     * The value the particle color is picked for, depending on colorBy
+     * @param x start longitude of the step
+     * @param y start latitude of the step
+     * @param m speed
+     * @param u
+     * @param v
+     * @param age
+     */
+    colorValue(x: number, y: number, m: number, u: number, v: number, age: number) {
+        switch (this.options.colorBy) {
+            case "direction":
+                return Vector.directionTo(u, v);
+            case "age":
+                return age;
+            case "scalar":
+                return this.options.colorField?.scalarAt(x, y) ?? NaN;
+            default:
+                return m;
+        }
     }
 
     /**
-     * 用于绘制坐标粒子
-     * @param particle
-     * @param min
-     * @param max
+     * Range the color scale is spread over: colorRange, the stop values, or the range of the colored value
      */
-    drawCoordsParticle(particle: Particle, min: number, max: number) {
-        // TODO 需要判断粒子是否超出视野
-        // this.ctx.strokeStyle = color;
-        const source: [number, number] = [particle.x, particle.y];
-        const target: [number, number] = [particle.xt!, particle.yt!];
+    colorRange(): [number, number] {
+        if (this.options.colorRange) {
+            return this.options.colorRange;
+        }
 
-        const pointPrev = this.project(source);
-        const pointNext = this.project(target);
+        if (this._colorScale.domain) {
+            return this._colorScale.domain;
+        }
+
+        switch (this.options.colorBy) {
+            case "direction":
+                return [0, 360];
+            case "age":
+                return [0, this.options.maxAge];
+            case "scalar":
+                return this.options.colorField?.range ?? [0, 1];
+            default:
+                return this.field!.range;
+        }
+    }
+
+    /**
+     * Visible positions with data, for the particle worker to restart particles on
+     * @param count wanted number of positions
+     * @returns lon, lat pairs
+     */
+    _findSeeds(count: number) {
+        const field = this.field!;
+        const seeds = [];
+        const maxTries = count * (this.options.seedTries ?? 10);
+
+        for (let k = 0; k < maxTries && seeds.length < count * 2; k++) {
+            const coords = this.unproject([(Math.random() * this._width) | 0, (Math.random() * this._height) | 0]);
+
+            if (coords !== null && field.hasValueAt(coords[0], coords[1])) {
+                seeds.push(coords[0], coords[1]);
+            }
+        }
 
-        if (pointPrev && pointNext) {
-            this.ctx.beginPath();
+        return new Float32Array(seeds);
+    }
 
-            this.ctx.moveTo(pointPrev[0], pointPrev[1]);
-            this.ctx.lineTo(pointNext[0], pointNext[1]);
+    _seedOptions(): SeedOptions {
+        return { maxTries: this.options.seedTries, fallback: this.options.seedFallback };
+    }
 
-            particle.x = particle.xt!;
-            particle.y = particle.yt!;
+    /**
+     * Share of the view where the globe is covered by the field, estimated on a lattice of pixels
+     */
+    _visibleDataFraction() {
+        const canvas = this.scene.canvas;
+        const field = this.field!;
+        let covered = 0;
 
-            if (Array.isArray(this.options.colorScale)) {
-                const colorIdx = indexFor(particle.m!, min, max, this.options.colorScale);
+        for (let j = 0; j < coverageLattice; j++) {
+            for (let i = 0; i < coverageLattice; i++) {
+                const coords = this.unproject([
+                    ((i + 0.5) / coverageLattice) * canvas.clientWidth,
+                    ((j + 0.5) / coverageLattice) * canvas.clientHeight
+                ]);
 
-                this.ctx.strokeStyle = this.options.colorScale[colorIdx];
-            } else {
-                this.ctx.strokeStyle = this.options.colorScale;
+                if (coords !== null && field.hasValueAt(coords[0], coords[1])) {
+                    covered++;
+                }
             }
+        }
 
-            this.ctx.stroke();
+        return covered / (coverageLattice * coverageLattice);
+    }
+
+    /**
+     * paths, or the particles for the covered area of the view with particleDensity
+     */
+    _particleCount() {
+        const density = this.options.particleDensity;
+
+        if (density === undefined) {
+            return this.options.paths;
         }
+
+        const canvas = this.scene.canvas;
+        const area = canvas.clientWidth * canvas.clientHeight * this._visibleDataFraction();
+
+        return Math.min(this.options.paths, Math.round(area * density));
     }
 
-    prepareParticles() {
-        const canvas = this.ctx.canvas;
-        const width = canvas.width;
-        const height = canvas.height;
+    /**
+     * Fit the particles to the view: keep those still on screen up to the new count, restart the others
+     */
+    _resizeParticles() {
+        const count = this._particleCount();
+        const field = this.field!;
+        const simulation = this._simulation;
+
+        if (simulation && !(field instanceof VolumeField)) {
+            // the worker keeps its particles, it is restarted for another count
+            if (count !== simulation.count) {
+                simulation.terminate();
+
+                this._simulation = new WorkerSimulation(
+                    field,
+                    count,
+                    this.options.maxAge,
+                    this._findSeeds(count),
+                    this.options.seedFallback
+                );
+            }
+
+            return;
+        }
 
-        const particleCount = this.options.paths;
+        const previous = this._particles;
 
-        const particles = [];
+        if (!previous) {
+            return;
+        }
 
-        for (let i = 0; i < particleCount; i++) {
-            const particle = {
-                age: this.getRandomAge(),
-                x: 0,
-                y: 0
-            };
+        const particles = new ParticlePool(count);
+        const volume = field instanceof VolumeField;
+        let kept = 0;
+
+        for (let i = 0; i < previous.count && kept < count; i++) {
+            if (
+                previous.age[i] > this.options.maxAge ||
+                !this._isOnScreen(previous.x[i], previous.y[i], volume ? previous.z[i] : undefined)
+            ) {
+                continue;
+            }
 
-            this.field!.assignRandomPosition(particle, width, height, this.unproject.bind(this));
+            previous.copyTo(i, particles, kept);
+            kept++;
+        }
+
+        this._placeParticles(particles, kept);
+        this._particles = particles;
+    }
 
-            particles.push(particle);
+    /**
+     * Whether a position is drawn inside the canvas
+     */
+    _isOnScreen(lon: number, lat: number, height?: number) {
+        if (!this.intersectsCoordinate([lon, lat], height)) {
+            return false;
         }
 
+        const point = this.project([lon, lat], height);
+
+        return point !== null && point[0] >= 0 && point[1] >= 0 && point[0] < this._width && point[1] < this._height;
+    }
+
+    /**
+     * Restart particles on random positions with random ages
+     * @param particles
+     * @param from first particle to place
+     */
+    _placeParticles(particles: ParticlePool, from: number) {
+        const width = this._width;
+        const height = this._height;
+        const unproject = this.unproject.bind(this);
+        const seedOptions = this._seedOptions();
+        const seed = this._seed;
+
+        for (let i = from; i < particles.count; i++) {
+            if (!this.field!.assignRandomPosition(seed, width, height, unproject, seedOptions)) {
+                // waits to be restarted
+                particles.age[i] = this.options.maxAge + 1;
+                continue;
+            }
+
+            particles.age[i] = this.getRandomAge();
+            particles.x[i] = seed.x;
+            particles.y[i] = seed.y;
+            particles.z[i] = seed.z ?? 0;
+        }
+    }
+
+    prepareParticles(count = this.options.paths) {
+        const particles = new ParticlePool(count);
+
+        this._placeParticles(particles, 0);
+
         return particles;
     }
 
+    /**
+     * Restart every particle on the current view, in the worker with useWorker
+     */
+    _resetParticles() {
+        const field = this.field!;
+        const count = this._particleCount();
+
+        this._simulation?.terminate();
+        this._simulation = undefined;
+        this._particles = undefined;
+
+        if (this.options.useWorker && !(field instanceof VolumeField)) {
+            this._simulation = new WorkerSimulation(
+                field,
+                count,
+                this.options.maxAge,
+                this._findSeeds(count),
+                this.options.seedFallback
+            );
+        } else {
+            this._particles = this.prepareParticles(count);
+        }
+    }
+
     getRandomAge() {
         return Math.floor(Math.random() * this.options.maxAge); // 例如最大生成90帧插值粒子路径
     }
 
-    project(coordinate: [number, number]) {
-        const scene = this.scene;
-        // const height = scene.globe.getHeight(carto);
-        const height = 0;
-
-        const position = Cartesian3.fromDegrees(coordinate[0], coordinate[1], height);
-
-        const windowPosition = SceneTransforms.worldToWindowCoordinates(scene, position);
+    /**
+     * Height the particles are drawn at, depending on the height option
+     * @param lon
+     * @param lat
+     */
+    heightAt(lon: number, lat: number) {
+        const height = this.options.height;
+
+        if (height === "terrain") {
+            const field = this.field!;
+
+            return this._terrain.heightAt(
+                this.scene.globe,
+                field instanceof FieldSeries || field instanceof VolumeField ? field.field : field,
+                lon,
+                lat
+            );
+        }
 
-        if (!windowPosition) {
-            return null;
+        if (height === "field") {
+            return this.field?.height ?? 0;
         }
 
-        return [windowPosition.x, windowPosition.y];
+        return height ?? 0;
     }
 
-    unproject(pixel: [number, number]): [number, number] | null {
-        scratchScreenPosition.x = pixel[0];
-        scratchScreenPosition.y = pixel[1];
+    /**
+     * Window position of coordinates
+     * @param coordinate
+     * @param height from the height option if undefined
+     */
+    project(coordinate: [number, number], height = this.heightAt(coordinate[0], coordinate[1])) {
+        return projectCoordinate(this.scene, coordinate, height);
+    }
 
-        const scene = this.scene;
-        const ray = scene.camera.getPickRay(scratchScreenPosition);
+    /**
+     * Coordinates under a window position at the height of the particles
+     * @param pixel
+     */
+    unproject(pixel: [number, number]): [number, number] | null {
+        const height = this.options.height;
 
-        if (!ray) {
-            return null;
+        // terrain heights vary, so the rendered terrain is picked
+        if (height === undefined || height === "terrain") {
+            return unprojectPixel(this.scene, pixel);
         }
 
-        const cartesian = scene.globe.pick(ray, scene);
+        return unprojectPixel(this.scene, pixel, height === "field" ? this.field?.height ?? 0 : height);
+    }
+
+    /**
+     * Wind at a position of the globe, interpolated at the current clock time for time series
+     * @param cartographic
+     * @returns undefined outside the field or where values are missing
+     */
+    sampleAt(cartographic: Cartographic): WindSample | undefined {
+        const field = this.field;
 
-        if (!cartesian) {
-            return null;
+        if (!field) {
+            return undefined;
         }
 
-        const ellipsoid = scene.globe.ellipsoid;
-        const cartographic = ellipsoid.cartesianToCartographic(cartesian);
+        const lon = floorMod(CesiumMath.toDegrees(cartographic.longitude) + 180, 360) - 180;
         const lat = CesiumMath.toDegrees(cartographic.latitude);
-        const lng = CesiumMath.toDegrees(cartographic.longitude);
 
-        return [lng, lat];
+        const vector = field.interpolatedValueAt(lon, lat);
+
+        if (vector === null) {
+            return undefined;
+        }
+
+        const grid = field instanceof FieldSeries || field instanceof VolumeField ? field.field : field;
+        const offset = grid.offsetAt(lon, lat);
+
+        return {
+            longitude: lon,
+            latitude: lat,
+            u: vector.u,
+            v: vector.v,
+            speed: vector.magnitude(),
+            directionFrom: vector.directionFrom(),
+            cell: { i: offset % grid.cols, j: Math.floor(offset / grid.cols) }
+        };
     }
 
-    intersectsCoordinate(coordinate: [number, number]) {
-        const ellipsoid = Ellipsoid.WGS84;
-        const camera = this.scene.camera;
-        const occluder = new EllipsoidalOccluder(ellipsoid, camera.position);
-        const point = Cartesian3.fromDegrees(coordinate[0], coordinate[1]);
+    /**
+     * Wind under a window position, e.g. the mouse
+     * @param windowPosition in CSS pixels of the scene canvas
+     * @returns undefined off the globe, outside the field or where values are missing
+     */
+    pickWind(windowPosition: Cartesian2): WindSample | undefined {
+        if (!this._scene) {
+            return undefined;
+        }
 
-        return occluder.isPointVisible(point);
+        const coords = this.unproject([windowPosition.x, windowPosition.y]);
+
+        if (coords === null) {
+            return undefined;
+        }
+
+        return this.sampleAt(Cartographic.fromDegrees(coords[0], coords[1]));
+    }
+
+    intersectsCoordinate(coordinate: [number, number], height = this.heightAt(coordinate[0], coordinate[1])) {
+        return isCoordinateVisible(this.scene, coordinate, height);
     }
 
     animate() {
@@ -543,6 +1420,22 @@ class CesiumParticles {
 
         this.animationLoop = requestAnimationFrame(this.animate);
 
+        this._tick();
+    }
+
+    _onPostRender() {
+        // the next frame is requested as long as the particles play, the scene then idles once paused
+        if (this.scene.requestRenderMode) {
+            this.scene.requestRender();
+        }
+
+        this._tick();
+    }
+
+    /**
+     * render if a frame of the particles is due
+     */
+    _tick() {
         const now = Date.now();
 
         const delta = now - this._then;
@@ -557,9 +1450,42 @@ class CesiumParticles {
      * 开始渲染
      */
     render() {
+        // positions are not projected while the scene morphs, trails are not drawn while the camera moves
+        if (this.scene.mode === SceneMode.MORPHING || this._moving) {
+            return;
+        }
+
+        // the drawing buffer of the scene follows resolutionScale changes without a resize of the container
+        this._onResize();
+
+        if (this._simulation) {
+            this._renderWorker(this._simulation);
+            return;
+        }
+
         this.moveParticles();
         this.drawParticles();
     }
+
+    _renderWorker(simulation: WorkerSimulation) {
+        const result = simulation.takeSegments();
+
+        if (result) {
+            this.drawSegments(result.segments, result.count);
+        }
+
+        if (!simulation.busy) {
+            // about as many particles restart per frame as paths / maxAge
+            simulation.pushSeeds(this._findSeeds(Math.ceil(this.options.paths / this.options.maxAge)));
+
+            simulation.step(
+                this._stepScale(),
+                this.options.maxAge,
+                this.options.integrator ?? "euler",
+                this.field instanceof FieldSeries ? this._time : undefined
+            );
+        }
+    }
 }
 
 export default CesiumParticles;
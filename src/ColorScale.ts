@@ -0,0 +1,370 @@
+export interface ColorStop {
+    value: number;
+    color: string;
+}
+
+/**
+ * Color space in which gradient stops are interpolated
+ * rgb: sRGB components
+ * hsl: hue along the shortest arc, saturation and lightness
+ * lab: CIE L*a*b*, perceptually even
+ */
+export type ColorSpace = "rgb" | "hsl" | "lab";
+
+export type PaletteName = "viridis" | "turbo" | "windy";
+
+/**
+ * a single CSS color, a list of discrete CSS colors spread over the range,
+ * gradient stops with values, or the name of a built-in palette
+ */
+export type ColorScaleOption = string | string[] | ColorStop[] | PaletteName;
+
+/**
+ * Built-in palettes. Color lists are spread evenly over the range,
+ * stops keep their values (m/s for windy).
+ */
+export const palettes: Record<PaletteName, string[] | ColorStop[]> = {
+    viridis: [
+        "#440154",
+        "#482475",
+        "#414487",
+        "#355f8d",
+        "#2a788e",
+        "#21918c",
+        "#22a884",
+        "#44bf70",
+        "#7ad151",
+        "#bddf26",
+        "#fde725"
+    ],
+    turbo: [
+        "#30123b",
+        "#4145ab",
+        "#4675ed",
+        "#39a2fc",
+        "#1bcfd4",
+        "#24eca6",
+        "#61fc6c",
+        "#a4fc3b",
+        "#d1e834",
+        "#f3c63a",
+        "#fe9b2d",
+        "#f36315",
+        "#d93806",
+        "#b11901",
+        "#7a0403"
+    ],
+    windy: [
+        { value: 0, color: "rgb(98, 113, 183)" },
+        { value: 1, color: "rgb(57, 97, 159)" },
+        { value: 3, color: "rgb(74, 148, 169)" },
+        { value: 5, color: "rgb(77, 141, 123)" },
+        { value: 7, color: "rgb(83, 165, 83)" },
+        { value: 9, color: "rgb(53, 159, 53)" },
+        { value: 11, color: "rgb(167, 157, 81)" },
+        { value: 13, color: "rgb(159, 127, 63)" },
+        { value: 15, color: "rgb(161, 108, 92)" },
+        { value: 17, color: "rgb(129, 58, 78)" },
+        { value: 19, color: "rgb(175, 80, 136)" },
+        { value: 21, color: "rgb(117, 74, 147)" },
+        { value: 24, color: "rgb(109, 97, 163)" },
+        { value: 27, color: "rgb(68, 105, 141)" },
+        { value: 29, color: "rgb(92, 144, 152)" },
+        { value: 36, color: "rgb(125, 68, 165)" },
+        { value: 46, color: "rgb(231, 215, 215)" },
+        { value: 51, color: "rgb(219, 212, 135)" },
+        { value: 77, color: "rgb(205, 202, 112)" },
+        { value: 104, color: "rgb(128, 128, 128)" }
+    ]
+};
+
+type RGBA = [number, number, number, number];
+
+/**
+ * Parse a hex, rgb() or rgba() CSS color
+ * @param color
+ * @returns r, g, b in [0, 255] and alpha in [0, 1]
+ */
+export function parseColor(color: string): RGBA {
+    const text = color.trim();
+
+    if (text[0] === "#") {
+        const hex = text.slice(1);
+        const short = hex.length === 3 || hex.length === 4;
+        const digits = short ? hex.replace(/./g, "$&$&") : hex;
+
+        if ((digits.length === 6 || digits.length === 8) && /^[0-9a-f]+$/i.test(digits)) {
+            const value = (k: number) => parseInt(digits.slice(k * 2, k * 2 + 2), 16);
+
+            return [value(0), value(1), value(2), digits.length === 8 ? value(3) / 255 : 1];
+        }
+    }
+
+    const match = /^rgba?\(([^)]*)\)$/i.exec(text);
+
+    if (match) {
+        const parts = match[1].split(/[\s,/]+/).filter((part) => part !== "");
+
+        if (parts.length === 3 || parts.length === 4) {
+            const values = parts.map((part) => parseFloat(part));
+
+            if (values.every((value) => !isNaN(value))) {
+                return [values[0], values[1], values[2], parts.length === 4 ? values[3] : 1];
+            }
+        }
+    }
+
+    throw new Error(`unsupported color: '${color}', use hex, rgb() or rgba()`);
+}
+
+function toLinear(c: number) {
+    const s = c / 255;
+
+    return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(c: number) {
+    const s = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+    return s * 255;
+}
+
+// D65 white point
+const xn = 0.95047;
+const yn = 1;
+const zn = 1.08883;
+
+function labF(t: number) {
+    return t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116;
+}
+
+function labFInverse(t: number) {
+    return t > 6 / 29 ? t * t * t : ((116 * t - 16) * 27) / 24389;
+}
+
+function rgbToLab(rgb: RGBA): RGBA {
+    const r = toLinear(rgb[0]);
+    const g = toLinear(rgb[1]);
+    const b = toLinear(rgb[2]);
+
+    const fx = labF((0.4124 * r + 0.3576 * g + 0.1805 * b) / xn);
+    const fy = labF((0.2126 * r + 0.7152 * g + 0.0722 * b) / yn);
+    const fz = labF((0.0193 * r + 0.1192 * g + 0.9505 * b) / zn);
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz), rgb[3]];
+}
+
+function labToRgb(lab: RGBA): RGBA {
+    const fy = (lab[0] + 16) / 116;
+    const x = xn * labFInverse(fy + lab[1] / 500);
+    const y = yn * labFInverse(fy);
+    const z = zn * labFInverse(fy - lab[2] / 200);
+
+    return [
+        fromLinear(3.2406 * x - 1.5372 * y - 0.4986 * z),
+        fromLinear(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+        fromLinear(0.0557 * x - 0.204 * y + 1.057 * z),
+        lab[3]
+    ];
+}
+
+function rgbToHsl(rgb: RGBA): RGBA {
+    const r = rgb[0] / 255;
+    const g = rgb[1] / 255;
+    const b = rgb[2] / 255;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const d = max - min;
+
+    if (d === 0) {
+        return [0, 0, l, rgb[3]];
+    }
+
+    const s = d / (1 - Math.abs(2 * l - 1));
+
+    let h;
+
+    if (max === r) {
+        h = ((g - b) / d + 6) % 6;
+    } else if (max === g) {
+        h = (b - r) / d + 2;
+    } else {
+        h = (r - g) / d + 4;
+    }
+
+    return [h * 60, s, l, rgb[3]];
+}
+
+function hslToRgb(hsl: RGBA): RGBA {
+    const h = (((hsl[0] % 360) + 360) % 360) / 60;
+    const c = (1 - Math.abs(2 * hsl[2] - 1)) * hsl[1];
+    const x = c * (1 - Math.abs((h % 2) - 1));
+    const m = hsl[2] - c / 2;
+
+    const sector = Math.floor(h);
+    const rgb = [
+        [c, x, 0],
+        [x, c, 0],
+        [0, c, x],
+        [0, x, c],
+        [x, 0, c],
+        [c, 0, x]
+    ][Math.min(sector, 5)];
+
+    return [(rgb[0] + m) * 255, (rgb[1] + m) * 255, (rgb[2] + m) * 255, hsl[3]];
+}
+
+/**
+ * Interpolate two colors in a color space
+ * @param a
+ * @param b
+ * @param t fraction from a to b
+ * @param colorSpace
+ */
+function mix(a: RGBA, b: RGBA, t: number, colorSpace: ColorSpace): RGBA {
+    const lerp = (p: number, q: number) => p + (q - p) * t;
+
+    if (colorSpace === "lab") {
+        const la = rgbToLab(a);
+        const lb = rgbToLab(b);
+
+        return labToRgb([lerp(la[0], lb[0]), lerp(la[1], lb[1]), lerp(la[2], lb[2]), lerp(la[3], lb[3])]);
+    }
+
+    if (colorSpace === "hsl") {
+        const ha = rgbToHsl(a);
+        const hb = rgbToHsl(b);
+
+        // turn along the shortest arc
+        const dh = ((((hb[0] - ha[0]) % 360) + 540) % 360) - 180;
+
+        return hslToRgb([ha[0] + dh * t, lerp(ha[1], hb[1]), lerp(ha[2], hb[2]), lerp(ha[3], hb[3])]);
+    }
+
+    return [lerp(a[0], b[0]), lerp(a[1], b[1]), lerp(a[2], b[2]), lerp(a[3], b[3])];
+}
+
+function toCSS(rgba: RGBA) {
+    const channel = (c: number) => Math.round(Math.max(0, Math.min(255, c)));
+
+    return `rgba(${channel(rgba[0])}, ${channel(rgba[1])}, ${channel(rgba[2])}, ${rgba[3]})`;
+}
+
+export interface ColorScaleOptions {
+    // color space of the interpolation between stops, "rgb" by default
+    colorSpace?: ColorSpace;
+    // number of colors a continuous scale is quantized to, 64 by default
+    buckets?: number;
+}
+
+/**
+ * Maps values to a fixed set of colors, so particles can be stroked in batches per color.
+ * Discrete color lists keep their colors, gradients are quantized into buckets.
+ */
+class ColorScale {
+    /**
+     * CSS color of each bucket
+     */
+    colors: string[];
+    /**
+     * values of the first and last stop, the default range of the scale, undefined without stop values
+     */
+    domain?: [number, number];
+
+    private _discrete: boolean;
+
+    constructor(scale: ColorScaleOption, options: ColorScaleOptions = {}) {
+        const definition = typeof scale === "string" ? palettes[scale as PaletteName] ?? scale : scale;
+
+        if (typeof definition === "string") {
+            this.colors = [definition];
+            this._discrete = true;
+            return;
+        }
+
+        if (definition.length === 0) {
+            throw new Error("colorScale must have at least one color");
+        }
+
+        // a user given color list keeps its discrete colors
+        if (typeof definition[0] === "string" && definition !== palettes[scale as PaletteName]) {
+            this.colors = (definition as string[]).slice();
+            this._discrete = true;
+            return;
+        }
+
+        const stops =
+            typeof definition[0] === "string"
+                ? (definition as string[]).map((color, k) => ({
+                      value: definition.length === 1 ? 0 : k / (definition.length - 1),
+                      color: color
+                  }))
+                : (definition as ColorStop[]).slice().sort((a, b) => a.value - b.value);
+
+        if (typeof definition[0] !== "string") {
+            this.domain = [stops[0].value, stops[stops.length - 1].value];
+        }
+
+        const colorSpace = options.colorSpace ?? "rgb";
+        const buckets = options.buckets ?? 64;
+        const rgbas = stops.map((stop) => parseColor(stop.color));
+        const first = stops[0].value;
+        const span = stops[stops.length - 1].value - first;
+
+        this.colors = [];
+        this._discrete = false;
+
+        for (let k = 0; k < buckets; k++) {
+            const value = first + ((k + 0.5) / buckets) * span;
+
+            let n = 0;
+
+            while (n < stops.length - 2 && value > stops[n + 1].value) {
+                n++;
+            }
+
+            if (stops.length === 1) {
+                this.colors.push(toCSS(rgbas[0]));
+                continue;
+            }
+
+            const width = stops[n + 1].value - stops[n].value;
+            const t = width > 0 ? Math.max(0, Math.min(1, (value - stops[n].value) / width)) : 0;
+
+            this.colors.push(toCSS(mix(rgbas[n], rgbas[n + 1], t, colorSpace)));
+        }
+    }
+
+    /**
+     * Bucket of a value
+     * @param value
+     * @param range values at the ends of the scale, the stops keep their values with the domain
+     */
+    bucketFor(value: number, range: [number, number]) {
+        const count = this.colors.length;
+
+        if (count === 1) {
+            return 0;
+        }
+
+        const min = range[0];
+        const max = range[1];
+
+        // missing values take the first color
+        if (!(max > min) || isNaN(value)) {
+            return 0;
+        }
+
+        const t = (value - min) / (max - min);
+
+        if (this._discrete) {
+            return Math.max(0, Math.min(count - 1, Math.round(t * (count - 1))));
+        }
+
+        return Math.max(0, Math.min(count - 1, Math.floor(t * count)));
+    }
+}
+
+export default ColorScale;
@@ -0,0 +1,318 @@
+import Field, { ConstructorOptions, SeedOptions, floorMod } from "./Field";
+import Particle from "./Particle";
+
+interface CurvilinearFieldOptions {
+    cols: number;
+    rows: number;
+    /**
+     * longitude of every grid point, row-major, e.g. lon_rho
+     */
+    lons: ArrayLike<number>;
+    /**
+     * latitude of every grid point, row-major, e.g. lat_rho
+     */
+    lats: ArrayLike<number>;
+    us: ConstructorOptions["us"];
+    vs: ConstructorOptions["vs"];
+    interpolation?: ConstructorOptions["interpolation"];
+    height?: ConstructorOptions["height"];
+}
+
+/**
+ * A field on a curvilinear grid described by 2D longitude and latitude arrays.
+ * Cells are found through a uniform bucket index over their bounding boxes,
+ * then located inside the cell by inverting the bilinear mapping.
+ */
+class CurvilinearField extends Field {
+    lons: Float64Array;
+    lats: Float64Array;
+
+    // bucket index, compressed: the cells of bucket b are cells[bucketStarts[b]..bucketStarts[b + 1]]
+    private _bucketCols = 0;
+    private _bucketRows = 0;
+    private _bucketStarts = new Int32Array(0);
+    private _cells = new Int32Array(0);
+
+    // last lookup, contains and getDecimalIndexes are called with the same coordinates
+    private _lastLon = NaN;
+    private _lastLat = NaN;
+    private _lastFound = false;
+    private _lastIndexes = new Float64Array(2);
+
+    constructor(options: CurvilinearFieldOptions) {
+        const cols = options.cols;
+        const rows = options.rows;
+        const count = cols * rows;
+
+        if (options.lons.length !== count || options.lats.length !== count) {
+            throw new Error(`lons and lats must have ${count} values (${rows} rows x ${cols} cols)`);
+        }
+
+        const lons = Float64Array.from(options.lons);
+        const lats = Float64Array.from(options.lats);
+
+        // keep longitudes continuous across the dateline
+        for (let k = 1; k < count; k++) {
+            lons[k] = lons[k - 1] + floorMod(lons[k] - lons[k - 1] + 180, 360) - 180;
+        }
+
+        let xmin = Infinity;
+        let xmax = -Infinity;
+        let ymin = Infinity;
+        let ymax = -Infinity;
+
+        for (let k = 0; k < count; k++) {
+            xmin = Math.min(xmin, lons[k]);
+            xmax = Math.max(xmax, lons[k]);
+            ymin = Math.min(ymin, lats[k]);
+            ymax = Math.max(ymax, lats[k]);
+        }
+
+        super({
+            xmin: xmin,
+            xmax: xmax,
+            ymin: ymin,
+            ymax: ymax,
+            deltaX: (xmax - xmin) / (cols - 1),
+            deltaY: (ymax - ymin) / (rows - 1),
+            cols: cols,
+            rows: rows,
+            us: options.us,
+            vs: options.vs,
+            interpolation: options.interpolation,
+            height: options.height
+        });
+
+        this.lons = lons;
+        this.lats = lats;
+        this.isContinuous = false;
+
+        this.buildIndex();
+    }
+
+    buildIndex() {
+        const cols = this.cols;
+        const rows = this.rows;
+        const lons = this.lons;
+        const lats = this.lats;
+
+        const bucketCols = Math.max(1, cols - 1);
+        const bucketRows = Math.max(1, rows - 1);
+        const bucketWidth = (this.xmax - this.xmin) / bucketCols || 1;
+        const bucketHeight = (this.ymax - this.ymin) / bucketRows || 1;
+
+        const counts = new Int32Array(bucketCols * bucketRows + 1);
+
+        const forEachBucket = (i: number, j: number, callback: (bucket: number) => void) => {
+            const k00 = j * cols + i;
+            const corners = [k00, k00 + 1, k00 + cols, k00 + cols + 1];
+
+            let x0 = Infinity;
+            let x1 = -Infinity;
+            let y0 = Infinity;
+            let y1 = -Infinity;
+
+            for (let c = 0; c < 4; c++) {
+                x0 = Math.min(x0, lons[corners[c]]);
+                x1 = Math.max(x1, lons[corners[c]]);
+                y0 = Math.min(y0, lats[corners[c]]);
+                y1 = Math.max(y1, lats[corners[c]]);
+            }
+
+            const bx0 = Math.min(bucketCols - 1, Math.floor((x0 - this.xmin) / bucketWidth));
+            const bx1 = Math.min(bucketCols - 1, Math.floor((x1 - this.xmin) / bucketWidth));
+            const by0 = Math.min(bucketRows - 1, Math.floor((y0 - this.ymin) / bucketHeight));
+            const by1 = Math.min(bucketRows - 1, Math.floor((y1 - this.ymin) / bucketHeight));
+
+            for (let by = by0; by <= by1; by++) {
+                for (let bx = bx0; bx <= bx1; bx++) {
+                    callback(by * bucketCols + bx);
+                }
+            }
+        };
+
+        for (let j = 0; j < rows - 1; j++) {
+            for (let i = 0; i < cols - 1; i++) {
+                forEachBucket(i, j, (bucket) => counts[bucket + 1]++);
+            }
+        }
+
+        for (let b = 1; b < counts.length; b++) {
+            counts[b] += counts[b - 1];
+        }
+
+        const cells = new Int32Array(counts[counts.length - 1]);
+        const fill = counts.slice();
+
+        for (let j = 0; j < rows - 1; j++) {
+            for (let i = 0; i < cols - 1; i++) {
+                forEachBucket(i, j, (bucket) => {
+                    cells[fill[bucket]++] = j * cols + i;
+                });
+            }
+        }
+
+        this._bucketCols = bucketCols;
+        this._bucketRows = bucketRows;
+        this._bucketStarts = counts;
+        this._cells = cells;
+    }
+
+    /**
+     * Position (s, t) of the point inside the quad, by Newton iterations on the bilinear mapping
+     * @param cell index of the upper left grid point
+     * @param x
+     * @param y
+     */
+    locateInCell(cell: number, x: number, y: number): [number, number] | null {
+        const lons = this.lons;
+        const lats = this.lats;
+        const cols = this.cols;
+
+        const x00 = lons[cell];
+        const x10 = lons[cell + 1];
+        const x01 = lons[cell + cols];
+        const x11 = lons[cell + cols + 1];
+        const y00 = lats[cell];
+        const y10 = lats[cell + 1];
+        const y01 = lats[cell + cols];
+        const y11 = lats[cell + cols + 1];
+
+        let s = 0.5;
+        let t = 0.5;
+
+        for (let k = 0; k < 8; k++) {
+            const fx = (1 - s) * (1 - t) * x00 + s * (1 - t) * x10 + (1 - s) * t * x01 + s * t * x11 - x;
+            const fy = (1 - s) * (1 - t) * y00 + s * (1 - t) * y10 + (1 - s) * t * y01 + s * t * y11 - y;
+
+            const dxds = (1 - t) * (x10 - x00) + t * (x11 - x01);
+            const dxdt = (1 - s) * (x01 - x00) + s * (x11 - x10);
+            const dyds = (1 - t) * (y10 - y00) + t * (y11 - y01);
+            const dydt = (1 - s) * (y01 - y00) + s * (y11 - y10);
+
+            const determinant = dxds * dydt - dxdt * dyds;
+
+            if (determinant === 0) {
+                return null;
+            }
+
+            const ds = (fx * dydt - fy * dxdt) / determinant;
+            const dt = (fy * dxds - fx * dyds) / determinant;
+
+            s -= ds;
+            t -= dt;
+
+            if (Math.abs(ds) < 1e-9 && Math.abs(dt) < 1e-9) {
+                break;
+            }
+        }
+
+        const epsilon = 1e-6;
+
+        if (s < -epsilon || s > 1 + epsilon || t < -epsilon || t > 1 + epsilon) {
+            return null;
+        }
+
+        return [Math.min(1, Math.max(0, s)), Math.min(1, Math.max(0, t))];
+    }
+
+    /**
+     * Find the fractional grid indexes of the coordinates, kept in _lastIndexes
+     * @param lon
+     * @param lat
+     * @returns false outside the grid
+     */
+    lookup(lon: number, lat: number) {
+        if (lon === this._lastLon && lat === this._lastLat) {
+            return this._lastFound;
+        }
+
+        this._lastLon = lon;
+        this._lastLat = lat;
+        this._lastFound = false;
+
+        const x = this.xmin + floorMod(lon - this.xmin, 360);
+
+        if (x > this.xmax || lat < this.ymin || lat > this.ymax) {
+            return false;
+        }
+
+        const bucketWidth = (this.xmax - this.xmin) / this._bucketCols || 1;
+        const bucketHeight = (this.ymax - this.ymin) / this._bucketRows || 1;
+        const bx = Math.min(this._bucketCols - 1, Math.floor((x - this.xmin) / bucketWidth));
+        const by = Math.min(this._bucketRows - 1, Math.floor((lat - this.ymin) / bucketHeight));
+        const bucket = by * this._bucketCols + bx;
+
+        for (let k = this._bucketStarts[bucket]; k < this._bucketStarts[bucket + 1]; k++) {
+            const cell = this._cells[k];
+            const position = this.locateInCell(cell, x, lat);
+
+            if (position !== null) {
+                const i = cell % this.cols;
+                const j = (cell - i) / this.cols;
+
+                this._lastIndexes[0] = i + position[0];
+                this._lastIndexes[1] = j + position[1];
+                this._lastFound = true;
+                break;
+            }
+        }
+
+        return this._lastFound;
+    }
+
+    contains(lon: number, lat: number) {
+        if (lon > 180 || lon < -180) {
+            throw new Error(`invalid longitude: ${lon}`);
+        }
+
+        if (lat > 90 || lat < -90) {
+            throw new Error(`invalid latitude: ${lat}`);
+        }
+
+        return this.lookup(lon, lat);
+    }
+
+    decimalIndexesInto(lon: number, lat: number, out: Float64Array) {
+        const found = this.lookup(lon, lat);
+
+        out[0] = found ? this._lastIndexes[0] : NaN;
+        out[1] = found ? this._lastIndexes[1] : NaN;
+    }
+
+    /**
+     * Pick a random visible pixel where the grid has data, or fall back to a random grid point if no such pixel is found.
+     */
+    assignRandomPosition(
+        particle: Particle,
+        width: number,
+        height: number,
+        unproject: (p: [number, number]) => [number, number] | null,
+        options: SeedOptions = {}
+    ) {
+        const maxTries = options.maxTries ?? 10;
+
+        for (let k = 0; k < maxTries; k++) {
+            const coords = unproject([(Math.random() * width) | 0, (Math.random() * height) | 0]);
+
+            if (coords !== null && this.hasValueAt(coords[0], coords[1])) {
+                particle.x = coords[0];
+                particle.y = coords[1];
+                return true;
+            }
+        }
+
+        if (options.fallback === "none") {
+            return false;
+        }
+
+        const point = (Math.random() * this.lons.length) | 0;
+
+        particle.x = floorMod(this.lons[point] + 180, 360) - 180;
+        particle.y = this.lats[point];
+
+        return true;
+    }
+}
+
+export default CurvilinearField;
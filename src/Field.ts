@@ -1,19 +1,79 @@
 import Vector from "./Vector";
 import Particle from "./Particle";
 
-interface ConstructorOptions {
+export interface ConstructorOptions {
     xmin: number;
     xmax: number;
     ymin: number;
     ymax: number;
     cols: number;
     rows: number;
-    us: number[];
-    vs: number[];
+    us: ArrayLike<number | null>;
+    vs: ArrayLike<number | null>;
     deltaX: number;
     deltaY: number;
 
     wrappedX?: boolean;
+    interpolation?: InterpolationMethod;
+    // height of the level in meters, e.g. of a pressure level
+    height?: number;
+}
+
+/**
+ * nearest: value of the nearest grid point
+ * bilinear: bilinear interpolation of u and v
+ * bicubic: Catmull-Rom interpolation of u and v over the 16 surrounding grid points
+ * direction: bilinear interpolation of speed and direction separately, preserving the speed across turns
+ */
+export type InterpolationMethod = "nearest" | "bilinear" | "bicubic" | "direction";
+
+/**
+ * Where a particle restarts when no visible pixel with data is found:
+ * extent: a random position in the field extent, possibly off screen
+ * none: nowhere, the particle waits and is tried again at the next step
+ */
+export type SeedFallback = "extent" | "none";
+
+export interface SeedOptions {
+    // random pixels tried, 10 by default
+    maxTries?: number;
+    // "extent" by default
+    fallback?: SeedFallback;
+}
+
+/**
+ * Catmull-Rom weights of the points at -1, 0, 1, 2 for t in [0, 1]
+ * @param t
+ * @param out receives the 4 weights
+ */
+function catmullRomWeights(t: number, out: Float64Array) {
+    const t2 = t * t;
+    const t3 = t2 * t;
+
+    out[0] = (-t + 2 * t2 - t3) / 2;
+    out[1] = (2 - 5 * t2 + 3 * t3) / 2;
+    out[2] = (t + 4 * t2 - 3 * t3) / 2;
+    out[3] = (-t2 + t3) / 2;
+}
+
+// scratch buffers of the bicubic weights
+const wx = new Float64Array(4);
+const wy = new Float64Array(4);
+
+// scratch buffers of the corners of the direction interpolation
+const cornerOffsets = new Float64Array(4);
+const cornerWeights = new Float64Array(4);
+
+/**
+ * Write a vector into a sample buffer
+ * @param out receives u, v and the speed
+ * @param u
+ * @param v
+ */
+function writeSample(out: Float64Array, u: number, v: number) {
+    out[0] = u;
+    out[1] = v;
+    out[2] = Math.sqrt(u * u + v * v);
 }
 
 /**
@@ -24,14 +84,18 @@ interface ConstructorOptions {
  * i.e., floor(a / n). Useful for consistent modulo of negative numbers.
  * See http://en.wikipedia.org/wiki/Modulo_operation.
  */
-function floorMod(a: number, n: number) {
+export function floorMod(a: number, n: number) {
     return a - n * Math.floor(a / n);
 }
 
-export function isValid(x: any) {
+export function isValid<T>(x: T): x is NonNullable<T> {
     return x !== null && x !== undefined;
 }
 
+/**
+ * Values are stored row-major in u/v Float32Array planes, with a mask of the valid grid points.
+ * Sampling writes into a caller buffer of u, v and speed instead of allocating vectors.
+ */
 class Field {
     xmin: number;
     xmax: number;
@@ -39,14 +103,21 @@ class Field {
     ymax: number;
     cols: number;
     rows: number;
-    us: number[];
-    vs: number[];
+    us: Float32Array;
+    vs: Float32Array;
+    // 1 where both u and v are valid
+    mask: Uint8Array;
     deltaX: number;
     deltaY: number;
-    grid: Vector | null[][];
     isContinuous: boolean;
     wrappedX: boolean;
     range: [number, number];
+    interpolation: InterpolationMethod;
+    // height of the level in meters, undefined if unknown
+    height?: number;
+
+    private _indexes = new Float64Array(2);
+    private _sample = new Float64Array(3);
 
     constructor(options: ConstructorOptions) {
         this.xmin = options.xmin;
@@ -55,10 +126,10 @@ class Field {
         this.ymax = options.ymax;
         this.cols = options.cols; // 列数
         this.rows = options.rows; // 行数
-        this.us = options.us; //
-        this.vs = options.vs;
         this.deltaX = options.deltaX; // x 方向增量
         this.deltaY = options.deltaY; // y方向增量
+        this.interpolation = options.interpolation ?? "bilinear";
+        this.height = options.height;
 
         if (this.deltaY < 0 && this.ymin < this.ymax) {
             console.warn("[wind-core]: The data is flipY");
@@ -76,50 +147,44 @@ class Field {
 
         // Math.floor(ni * Δλ) >= 360;
         // lon lat 经度 纬度
-        this.isContinuous = Math.floor(this.cols * options.deltaX) >= 360;
+        // with some tolerance, ni * Δλ rounds below 360 for a 0.1° grid whose Δλ comes from its end longitudes
+        this.isContinuous = this.cols * options.deltaX >= 360 - options.deltaX * 1e-6;
         this.wrappedX = options.wrappedX ? options.wrappedX : this.xmax > 180; // [0, 360] --> [-180, 180];
-        this.grid = this.buildGrid();
-        this.range = this.calculateRange();
-    }
 
-    // from https://github.com/sakitam-fdd/wind-layer/blob/95368f9433/src/windy/windy.js#L110
-    buildGrid() {
-        const grid = [];
-        let p = 0;
+        const count = this.cols * this.rows;
 
-        const rows = this.rows;
-        const cols = this.cols;
-        const us = this.us;
-        const vs = this.vs;
-
-        for (let j = 0; j < rows; j++) {
-            const row = [];
+        this.us = new Float32Array(count);
+        this.vs = new Float32Array(count);
+        this.mask = new Uint8Array(count);
 
-            for (let i = 0; i < cols; i++, p++) {
-                const u = us[p];
-                const v = vs[p];
-
-                const valid = isValid(u) && isValid(v);
+        this.buildGrid(options.us, options.vs);
+        this.range = this.calculateRange();
+    }
 
-                if (!valid) {
-                    console.log(`invalid ${i}, ${j}`);
-                }
+    /**
+     * Copy the values into the planes, null and NaN being missing
+     * @param us
+     * @param vs
+     */
+    buildGrid(us: ArrayLike<number | null>, vs: ArrayLike<number | null>) {
+        const count = this.cols * this.rows;
 
-                row[i] = valid ? new Vector(u, v) : null;
-            }
+        for (let p = 0; p < count; p++) {
+            const u = us[p];
+            const v = vs[p];
 
-            if (this.isContinuous) {
-                row.push(row[0]);
+            if (isValid(u) && isValid(v) && !isNaN(u) && !isNaN(v)) {
+                this.us[p] = u;
+                this.vs[p] = v;
+                this.mask[p] = 1;
             }
-
-            grid[j] = row;
         }
-
-        return grid;
     }
 
     release() {
-        this.grid = [];
+        this.us = new Float32Array(0);
+        this.vs = new Float32Array(0);
+        this.mask = new Uint8Array(0);
     }
 
     /**
@@ -133,97 +198,196 @@ class Field {
      * Bilinear interpolation for Vector
      * 针对向量进行双线性插值
      * https://en.wikipedia.org/wiki/Bilinear_interpolation
+     * Missing corners are left out and the weights of the others renormalized,
+     * so cells next to missing values degrade gracefully.
      * @param   {Number} x
      * @param   {Number} y
-     * @param   {Number[]} g00
-     * @param   {Number[]} g10
-     * @param   {Number[]} g01
-     * @param   {Number[]} g11
-     * @returns {Vector}
+     * @param   {Number} k00 offset of the upper left grid point
+     * @param   {Number} k10
+     * @param   {Number} k01
+     * @param   {Number} k11
+     * @param   out receives u, v and the speed
+     * @returns {Boolean} false if all corners are missing
      */
-    bilinearInterpolateVector(x: number, y: number, g00: Vector, g10: Vector, g01: Vector, g11: Vector) {
+    bilinearInterpolateVector(
+        x: number,
+        y: number,
+        k00: number,
+        k10: number,
+        k01: number,
+        k11: number,
+        out: Float64Array
+    ) {
         const rx = 1 - x;
         const ry = 1 - y;
-        const a = rx * ry;
-        const b = x * ry;
-        const c = rx * y;
-        const d = x * y;
-        const u = g00.u * a + g10.u * b + g01.u * c + g11.u * d;
-        const v = g00.v * a + g10.v * b + g01.v * c + g11.v * d;
-
-        return new Vector(u, v);
+        const us = this.us;
+        const vs = this.vs;
+        const mask = this.mask;
+
+        const w00 = mask[k00] * rx * ry;
+        const w10 = mask[k10] * x * ry;
+        const w01 = mask[k01] * rx * y;
+        const w11 = mask[k11] * x * y;
+        const total = w00 + w10 + w01 + w11;
+
+        if (total === 0) {
+            return false;
+        }
+
+        const u = us[k00] * w00 + us[k10] * w10 + us[k01] * w01 + us[k11] * w11;
+        const v = vs[k00] * w00 + vs[k10] * w10 + vs[k01] * w01 + vs[k11] * w11;
+
+        writeSample(out, u / total, v / total);
+
+        return true;
     }
 
     /**
-     * calculate vector value range
+     * Interpolate speed and direction separately,
+     * averaging unit vectors for the direction so it turns instead of shrinking through calm spots.
+     * Missing corners are handled as in bilinearInterpolateVector.
      */
-    calculateRange(): [number, number] {
-        if (!this.grid || !this.grid[0]) {
-            throw new Error("grid required");
+    directionInterpolateVector(
+        x: number,
+        y: number,
+        k00: number,
+        k10: number,
+        k01: number,
+        k11: number,
+        out: Float64Array
+    ) {
+        const rx = 1 - x;
+        const ry = 1 - y;
+        const us = this.us;
+        const vs = this.vs;
+        const mask = this.mask;
+
+        const offsets = cornerOffsets;
+        const weights = cornerWeights;
+
+        offsets[0] = k00;
+        offsets[1] = k10;
+        offsets[2] = k01;
+        offsets[3] = k11;
+        weights[0] = rx * ry;
+        weights[1] = x * ry;
+        weights[2] = rx * y;
+        weights[3] = x * y;
+
+        let speed = 0;
+        let dx = 0;
+        let dy = 0;
+        let total = 0;
+
+        for (let n = 0; n < 4; n++) {
+            const k = offsets[n];
+
+            if (mask[k] === 1) {
+                const m = Math.sqrt(us[k] * us[k] + vs[k] * vs[k]);
+
+                speed += m * weights[n];
+                total += weights[n];
+
+                if (m > 0) {
+                    dx += (us[k] / m) * weights[n];
+                    dy += (vs[k] / m) * weights[n];
+                }
+            }
         }
 
-        const rows = this.grid.length;
-        const cols = this.grid[0].length;
+        if (total === 0) {
+            return false;
+        }
 
-        let min = Number.POSITIVE_INFINITY;
-        let max = Number.NEGATIVE_INFINITY;
+        const length = Math.sqrt(dx * dx + dy * dy);
+
+        if (length === 0) {
+            writeSample(out, 0, 0);
+            return true;
+        }
 
-        // @from: https://stackoverflow.com/questions/13544476/how-to-find-max-and-min-in-array-using-minimum-comparisons
-        for (let j = 0; j < rows; j++) {
-            for (let i = 0; i < cols; i++) {
-                const vec = this.grid[j][i];
-
-                if (vec !== null) {
-                    const val = vec.m || vec.magnitude();
-                    // vectors.push();
-                    if (min === undefined) {
-                        min = val;
-                    } else if (max === undefined) {
-                        max = val;
-                        // update min max
-                        // 1. Pick 2 elements(a, b), compare them. (say a > b)
-                        min = Math.min(min, max);
-                        max = Math.max(min, max);
-                    } else {
-                        // 2. Update min by comparing (min, b)
-                        // 3. Update max by comparing (max, a)
-                        min = Math.min(val, min);
-                        max = Math.max(val, max);
-                    }
+        speed /= total;
+
+        writeSample(out, (dx / length) * speed, (dy / length) * speed);
+
+        return true;
+    }
+
+    /**
+     * Bicubic (Catmull-Rom) interpolation over the 16 surrounding grid points.
+     * Returns false when one of them is missing, to fall back to bilinear interpolation.
+     * @param i decimal column index
+     * @param j decimal row index
+     * @param out receives u, v and the speed
+     */
+    bicubicInterpolatePoint(i: number, j: number, out: Float64Array) {
+        const fi = Math.floor(i);
+        const fj = Math.floor(j);
+
+        catmullRomWeights(i - fi, wx);
+        catmullRomWeights(j - fj, wy);
+
+        let u = 0;
+        let v = 0;
+
+        for (let n = 0; n < 4; n++) {
+            const row = this.clampRowIndex(fj - 1 + n) * this.cols;
+
+            for (let m = 0; m < 4; m++) {
+                const k = row + this.wrapColumnIndex(fi - 1 + m);
+
+                if (this.mask[k] === 0) {
+                    return false;
                 }
+
+                const w = wx[m] * wy[n];
+
+                u += this.us[k] * w;
+                v += this.vs[k] * w;
             }
         }
 
-        return [min, max];
+        writeSample(out, u, v);
+
+        return true;
     }
+
     /**
-     * 检查 uv是否合法
-     * @param x
-     * @private
+     * calculate vector value range
      */
+    calculateRange(): [number, number] {
+        if (this.mask.length === 0) {
+            throw new Error("grid required");
+        }
+
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.NEGATIVE_INFINITY;
+
+        for (let k = 0; k < this.mask.length; k++) {
+            if (this.mask[k] === 1) {
+                const val = Math.sqrt(this.us[k] * this.us[k] + this.vs[k] * this.vs[k]);
 
-    getWrappedLongitudes() {
-        let xmin = this.xmin;
-        let xmax = this.xmax;
-
-        if (this.wrappedX) {
-            if (this.isContinuous) {
-                xmin = -180;
-                xmax = 180;
-            } else {
-                // not sure about this (just one particular case, but others...?)
-                xmax = this.xmax - 360;
-                xmin = this.xmin - 360;
-                /* eslint-disable no-console */
-                // console.warn(`are these xmin: ${xmin} & xmax: ${xmax} OK?`);
-                // TODO: Better throw an exception on no-controlled situations.
-                /* eslint-enable no-console */
+                min = Math.min(val, min);
+                max = Math.max(val, max);
             }
         }
 
-        return [xmin, xmax];
+        return [min, max];
+    }
+    /**
+     * longitude span covered by the grid, 360 for global grids
+     */
+    longitudeSpan() {
+        return this.isContinuous ? 360 : this.xmax - this.xmin;
     }
 
+    /**
+     * Whether the coordinates are inside the grid extent.
+     * Longitudes are compared in the wrapped range starting at xmin,
+     * which works for [-180, 180], [0, 360] and dateline crossing grids.
+     * @param lon
+     * @param lat
+     */
     contains(lon: number, lat: number) {
         if (lon > 180 || lon < -180) {
             throw new Error(`invalid longitude: ${lon}`);
@@ -232,37 +396,53 @@ class Field {
         if (lat > 90 || lat < -90) {
             throw new Error(`invalid latitude: ${lat}`);
         }
-        return true;
 
-        const _a = this.getWrappedLongitudes(),
-            xmin = _a[0],
-            xmax = _a[1];
-
-        const longitudeIn = lon >= xmin && lon <= xmax;
-        let latitudeIn;
-
-        if (this.deltaY >= 0) {
-            latitudeIn = lat >= this.ymin && lat <= this.ymax;
-        } else {
-            latitudeIn = lat >= this.ymax && lat <= this.ymin;
-        }
+        const longitudeIn = this.isContinuous || floorMod(lon - this.xmin, 360) <= this.longitudeSpan();
+        const latitudeIn = lat >= Math.min(this.ymin, this.ymax) && lat <= Math.max(this.ymin, this.ymax);
 
         return longitudeIn && latitudeIn;
     }
+
     /**
      * 获取经纬度所在的位置索引
      * @param lon
      * @param lat
      */
     getDecimalIndexes(lon: number, lat: number) {
-        if (lon < 0) {
-            lon = 360 + lon;
+        this.decimalIndexesInto(lon, lat, this._indexes);
+
+        return [this._indexes[0], this._indexes[1]];
+    }
+
+    /**
+     * Write the decimal column and row indexes of the coordinates into out
+     * @param lon
+     * @param lat
+     * @param out
+     */
+    decimalIndexesInto(lon: number, lat: number, out: Float64Array) {
+        out[0] = floorMod(lon - this.xmin, 360) / this.deltaX; // calculate longitude index in wrapped range [0, 360)
+        out[1] = (this.ymax - lat) / this.deltaY; // calculate latitude index in direction +90 to -90
+    }
+
+    /**
+     * Offset in the planes of the grid point at or before the coordinates, -1 outside the grid
+     * @param lon
+     * @param lat
+     */
+    offsetAt(lon: number, lat: number) {
+        if (!this.contains(lon, lat)) {
+            return -1;
         }
 
-        const i = floorMod(lon - this.xmin, 360) / this.deltaX; // calculate longitude index in wrapped range [0, 360)
-        const j = (this.ymax - lat) / this.deltaY; // calculate latitude index in direction +90 to -90
-        return [i, j];
+        this.decimalIndexesInto(lon, lat, this._indexes);
+
+        const ci = this.clampColumnIndex(Math.floor(this._indexes[0]));
+        const cj = this.clampRowIndex(Math.floor(this._indexes[1]));
+
+        return cj * this.cols + ci;
     }
+
     /**
      * Nearest value at lon-lat coordinates
      * 线性插值
@@ -270,17 +450,13 @@ class Field {
      * @param lat
      */
     valueAt(lon: number, lat: number) {
-        if (!this.contains(lon, lat)) {
+        const k = this.offsetAt(lon, lat);
+
+        if (k === -1 || this.mask[k] === 0) {
             return null;
         }
 
-        const indexes = this.getDecimalIndexes(lon, lat);
-        const ii = Math.floor(indexes[0]);
-        const jj = Math.floor(indexes[1]);
-        const ci = this.clampColumnIndex(ii);
-        const cj = this.clampRowIndex(jj);
-
-        return this.valueAtIndexes(ci, cj);
+        return new Vector(this.us[k], this.vs[k]);
     }
 
     /**
@@ -290,6 +466,21 @@ class Field {
      * @param lat
      */
     interpolatedValueAt(lon: number, lat: number) {
+        if (!this.sample(lon, lat, this._sample)) {
+            return null;
+        }
+
+        return new Vector(this._sample[0], this._sample[1]);
+    }
+
+    /**
+     * Interpolate at lon-lat coordinates without allocating
+     * @param lon
+     * @param lat
+     * @param out receives u, v and the speed
+     * @returns false outside the grid or where values are missing
+     */
+    sample(lon: number, lat: number, out: Float64Array) {
         if (lon > 180 || lon < -180) {
             throw new Error(`invalid longitude: ${lon}`);
         }
@@ -299,52 +490,80 @@ class Field {
         }
 
         if (!this.contains(lon, lat)) {
-            return null;
+            return false;
         }
 
-        const _a = this.getDecimalIndexes(lon, lat),
-            i = _a[0],
-            j = _a[1];
+        this.decimalIndexesInto(lon, lat, this._indexes);
 
-        return this.interpolatePoint(i, j);
+        return this.interpolatePoint(this._indexes[0], this._indexes[1], out);
     }
 
     hasValueAt(lon: number, lat: number) {
-        const value = this.valueAt(lon, lat);
+        const k = this.offsetAt(lon, lat);
 
-        return value !== null;
+        return k !== -1 && this.mask[k] === 1;
     }
 
     /**
-     * 基于向量的双线性插值
+     * 基于向量的插值
+     * Interpolate with the method of the field
      * @param i
      * @param j
+     * @param out receives u, v and the speed
      */
-    interpolatePoint(i: number, j: number) {
+    interpolatePoint(i: number, j: number, out: Float64Array) {
+        if (this.interpolation === "nearest") {
+            const k = this.clampRowIndex(Math.round(j)) * this.cols + this.wrapColumnIndex(Math.round(i));
+
+            if (this.mask[k] === 0) {
+                return false;
+            }
+
+            writeSample(out, this.us[k], this.vs[k]);
+
+            return true;
+        }
+
+        if (this.interpolation === "bicubic" && this.bicubicInterpolatePoint(i, j, out)) {
+            return true;
+        }
+
         //         1      2           After converting λ and φ to fractional grid indexes i and j, we find the
         //        fi  i   ci          four points 'G' that enclose point (i, j). These points are at the four
         //         | =1.4 |           corners specified by the floor and ceiling of i and j. For example, given
         //      ---G--|---G--- fj 8   i = 1.4 and j = 8.3, the four surrounding grid points are (1, 8), (2, 8),
         //    j ___|_ .   |           (1, 9) and (2, 9).
         //  =8.3   |      |
-        //      ---G------G--- cj 9   Note that for wrapped grids, the first column is duplicated as the last
-        //         |      |           column, so the index ci can be used without taking a modulo.
-        const indexes = this.getFourSurroundingIndexes(i, j);
-        const fi = indexes[0],
-            ci = indexes[1],
-            fj = indexes[2],
-            cj = indexes[3];
-        const values = this.getFourSurroundingValues(fi, ci, fj, cj);
-        if (values) {
-            const g00 = values[0],
-                g10 = values[1],
-                g01 = values[2],
-                g11 = values[3];
-            // @ts-ignore
-            return this.bilinearInterpolateVector(i - fi, j - fj, g00, g10, g01, g11);
+        //      ---G------G--- cj 9   Note that for wrapped grids, the column after the last one is
+        //         |      |           the first column.
+        const ii = Math.floor(i);
+        const fi = this.clampColumnIndex(ii);
+        const ci = this.wrapColumnIndex(ii + 1);
+        const fj = this.clampRowIndex(Math.floor(j));
+        const cj = this.clampRowIndex(fj + 1);
+
+        const upper = fj * this.cols;
+        const lower = cj * this.cols;
+
+        if (this.interpolation === "direction") {
+            return this.directionInterpolateVector(i - ii, j - fj, upper + fi, upper + ci, lower + fi, lower + ci, out);
         }
-        return null;
+
+        return this.bilinearInterpolateVector(i - ii, j - fj, upper + fi, upper + ci, lower + fi, lower + ci, out);
     }
+
+    /**
+     * Column index wrapped around global grids, clamped otherwise
+     * @param ii
+     */
+    wrapColumnIndex(ii: number) {
+        if (this.isContinuous) {
+            return floorMod(ii, this.cols);
+        }
+
+        return this.clampColumnIndex(ii);
+    }
+
     /**
      * Check the column index is inside the field,
      * adjusting to min or max when needed
@@ -387,65 +606,17 @@ class Field {
 
         return j;
     }
-    /**
-     * from: https://github.com/IHCantabria/Leaflet.CanvasLayer.Field/blob/master/src/Field.js#L252
-     * 计算索引位置周围的数据
-     * @private
-     * @param   {Number} i - decimal index
-     * @param   {Number} j - decimal index
-     * @returns {Array} [fi, ci, fj, cj]
-     */
-    getFourSurroundingIndexes(i: number, j: number) {
-        const fi = Math.floor(i); // 左
-        let ci = fi + 1; // 右
-        // duplicate colum to simplify interpolation logic (wrapped value)
-        if (this.isContinuous && ci >= this.cols) {
-            ci = 0;
-        }
-
-        ci = this.clampColumnIndex(ci);
-        const fj = this.clampRowIndex(Math.floor(j)); // 上 纬度方向索引（取整）
-        const cj = this.clampRowIndex(fj + 1); // 下
-
-        return [fi, ci, fj, cj];
-    }
 
-    /**
-     * from https://github.com/IHCantabria/Leaflet.CanvasLayer.Field/blob/master/src/Field.js#L277
-     * Get four surrounding values or null if not available,
-     * from 4 integer indexes
-     * @private
-     * @param   {Number} fi
-     * @param   {Number} ci
-     * @param   {Number} fj
-     * @param   {Number} cj
-     * @returns {Array}
-     */
-    getFourSurroundingValues(fi: number, ci: number, fj: number, cj: number) {
-        let row;
-
-        if ((row = this.grid[fj])) {
-            const g00 = row[fi]; // << left
-            const g10 = row[ci]; // right >>
-            if (isValid(g00) && isValid(g10) && (row = this.grid[cj])) {
-                // lower row vv
-                const g01 = row[fi]; // << left
-                const g11 = row[ci]; // right >>
-                if (isValid(g01) && isValid(g11)) {
-                    return [g00, g10, g01, g11]; // 4 values found!
-                }
-            }
-        }
-        return null;
-    }
     /**
      * Value for grid indexes
      * @param   {Number} i - column index (integer)
      * @param   {Number} j - row index (integer)
-     * @returns {Vector|Number}
+     * @returns {Vector|null}
      */
     valueAtIndexes(i: number, j: number) {
-        return this.grid[j][i]; // <-- j,i !!
+        const k = j * this.cols + i;
+
+        return this.mask[k] === 1 ? new Vector(this.us[k], this.vs[k]) : null;
     }
 
     /**
@@ -479,31 +650,51 @@ class Field {
     }
     /**
      * 生成粒子位置
+     * Pick a random visible pixel where the field has data,
+     * or fall back to a random position in the extent if no such pixel is found.
      * @param particle
      * @param width
      * @param height
      * @param unproject
+     * @param options
+     * @returns false if the particle was not placed
      */
     assignRandomPosition(
         particle: Particle,
         width: number,
         height: number,
-        unproject: (p: [number, number]) => [number, number] | null
+        unproject: (p: [number, number]) => [number, number] | null,
+        options: SeedOptions = {}
     ) {
-        const i = (Math.random() * width) | 0;
-        const j = (Math.random() * height) | 0;
+        const maxTries = options.maxTries ?? 10;
 
-        const coords = unproject([i, j]);
+        let coords: [number, number] | null = null;
+
+        for (let k = 0; k < maxTries; k++) {
+            const i = (Math.random() * width) | 0;
+            const j = (Math.random() * height) | 0;
+
+            coords = unproject([i, j]);
+
+            if (coords !== null && this.hasValueAt(coords[0], coords[1])) {
+                break;
+            }
+
+            coords = null;
+        }
 
         if (coords !== null) {
             particle.x = coords[0];
             particle.y = coords[1];
+        } else if (options.fallback === "none") {
+            return false;
         } else {
-            const col = (Math.random() * this.cols) | 0;
-            const row = (Math.random() * this.rows) | 0;
+            const lon = this.xmin + Math.random() * this.longitudeSpan();
+            const ymin = Math.min(this.ymin, this.ymax);
+            const ymax = Math.max(this.ymin, this.ymax);
 
-            particle.x = this.longitudeAtX(col);
-            particle.y = this.latitudeAtY(row);
+            particle.x = floorMod(lon + 180, 360) - 180;
+            particle.y = ymin + Math.random() * (ymax - ymin);
         }
 
         if (particle.x > 180 || particle.x < -180) {
@@ -513,6 +704,8 @@ class Field {
         if (particle.y > 90 || particle.y < -90) {
             throw new Error(`invalid latitude: ${particle.y}`);
         }
+
+        return true;
     }
 }
 
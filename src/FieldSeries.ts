@@ -0,0 +1,225 @@
+import type { JulianDate } from "cesium";
+import Vector from "./Vector";
+import Field, { SeedOptions } from "./Field";
+import Particle from "./Particle";
+
+/**
+ * Day number and seconds of day of a time, as in a JulianDate.
+ * Workers get plain objects so that they do not load Cesium.
+ */
+export type SeriesTime = Pick<JulianDate, "dayNumber" | "secondsOfDay">;
+
+export interface FieldStep<T extends SeriesTime = SeriesTime> {
+    time: T;
+    field: Field;
+}
+
+const secondsPerDay = 86400;
+
+function toSeconds(time: SeriesTime) {
+    return time.dayNumber * secondsPerDay + time.secondsOfDay;
+}
+
+/**
+ * An ordered list of fields tagged with times.
+ * Values are interpolated in time between the two nearest steps.
+ */
+class FieldSeries<T extends SeriesTime = SeriesTime> {
+    steps: FieldStep<T>[];
+    range: [number, number];
+
+    // times of the steps and the current time, in seconds since the julian epoch
+    private _times: number[];
+    private _seconds: number;
+
+    // index of the step before the current time and the fraction towards the next one
+    private _index = 0;
+    private _fraction = 0;
+
+    private _sample = new Float64Array(3);
+    private _next = new Float64Array(3);
+
+    constructor(steps: FieldStep<T>[]) {
+        if (steps.length === 0) {
+            throw new Error("at least one field step is required");
+        }
+
+        this.steps = steps.slice().sort((a, b) => toSeconds(a.time) - toSeconds(b.time));
+        this._times = this.steps.map((step) => toSeconds(step.time));
+        this._seconds = this._times[0];
+        this.range = this.calculateRange();
+    }
+
+    get start() {
+        return this.steps[0].time;
+    }
+
+    get stop() {
+        return this.steps[this.steps.length - 1].time;
+    }
+
+    /**
+     * current time in seconds since the julian epoch
+     */
+    get seconds() {
+        return this._seconds;
+    }
+
+    /**
+     * the field of the step nearest to the current time
+     */
+    get field() {
+        const index = this._fraction < 0.5 ? this._index : this._index + 1;
+
+        return this.steps[Math.min(index, this.steps.length - 1)].field;
+    }
+
+    /**
+     * height of the level in meters, undefined if unknown
+     */
+    get height() {
+        return this.steps[0].field.height;
+    }
+
+    /**
+     * union of the ranges of all steps
+     */
+    calculateRange(): [number, number] {
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.NEGATIVE_INFINITY;
+
+        for (let i = 0; i < this.steps.length; i++) {
+            const range = this.steps[i].field.range;
+
+            min = Math.min(min, range[0]);
+            max = Math.max(max, range[1]);
+        }
+
+        return [min, max];
+    }
+
+    /**
+     * Select the two steps enclosing the time.
+     * Times outside the series are clamped to the first or the last step.
+     * @param time
+     */
+    setTime(time: SeriesTime) {
+        const seconds = toSeconds(time);
+        const times = this._times;
+        const last = times.length - 1;
+
+        this._seconds = seconds;
+
+        if (last === 0 || seconds <= times[0]) {
+            this._index = 0;
+            this._fraction = 0;
+            return;
+        }
+
+        if (seconds >= times[last]) {
+            this._index = last;
+            this._fraction = 0;
+            return;
+        }
+
+        // binary search for the last step not after the time
+        let low = 0;
+        let high = last;
+
+        while (high - low > 1) {
+            const mid = (low + high) >> 1;
+
+            if (times[mid] <= seconds) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        const span = times[high] - times[low];
+
+        this._index = low;
+        this._fraction = span > 0 ? (seconds - times[low]) / span : 0;
+    }
+
+    /**
+     * Get interpolated value in space and time
+     * @param lon
+     * @param lat
+     */
+    interpolatedValueAt(lon: number, lat: number) {
+        if (!this.sample(lon, lat, this._sample)) {
+            return null;
+        }
+
+        return new Vector(this._sample[0], this._sample[1]);
+    }
+
+    /**
+     * Interpolate in space and time without allocating
+     * @param lon
+     * @param lat
+     * @param out receives u, v and the speed
+     */
+    sample(lon: number, lat: number, out: Float64Array) {
+        const current = this.steps[this._index].field;
+
+        if (!current.sample(lon, lat, out)) {
+            return false;
+        }
+
+        if (this._fraction === 0) {
+            return true;
+        }
+
+        const next = this._next;
+
+        if (!this.steps[this._index + 1].field.sample(lon, lat, next)) {
+            return true;
+        }
+
+        const t = this._fraction;
+        const u = out[0] + (next[0] - out[0]) * t;
+        const v = out[1] + (next[1] - out[1]) * t;
+
+        out[0] = u;
+        out[1] = v;
+        out[2] = Math.sqrt(u * u + v * v);
+
+        return true;
+    }
+
+    valueAt(lon: number, lat: number) {
+        return this.field.valueAt(lon, lat);
+    }
+
+    hasValueAt(lon: number, lat: number) {
+        return this.field.hasValueAt(lon, lat);
+    }
+
+    contains(lon: number, lat: number) {
+        return this.field.contains(lon, lat);
+    }
+
+    extent() {
+        return this.steps[0].field.extent();
+    }
+
+    assignRandomPosition(
+        particle: Particle,
+        width: number,
+        height: number,
+        unproject: (p: [number, number]) => [number, number] | null,
+        options?: SeedOptions
+    ) {
+        return this.field.assignRandomPosition(particle, width, height, unproject, options);
+    }
+
+    release() {
+        for (let i = 0; i < this.steps.length; i++) {
+            this.steps[i].field.release();
+        }
+    }
+}
+
+export default FieldSeries;
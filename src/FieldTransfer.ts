@@ -0,0 +1,158 @@
+import Field, { InterpolationMethod } from "./Field";
+import FieldSeries from "./FieldSeries";
+import RectilinearField from "./RectilinearField";
+import CurvilinearField from "./CurvilinearField";
+
+/**
+ * A field as plain data and typed arrays, to be posted to a worker.
+ * Missing values are NaN in us/vs.
+ */
+export interface TransferredField {
+    type: "regular" | "rectilinear" | "curvilinear";
+    xmin: number;
+    xmax: number;
+    ymin: number;
+    ymax: number;
+    deltaX: number;
+    deltaY: number;
+    cols: number;
+    rows: number;
+    interpolation: InterpolationMethod;
+    us: Float32Array;
+    vs: Float32Array;
+    lons?: Float64Array;
+    lats?: Float64Array;
+}
+
+export interface TransferredFieldSeries {
+    type: "series";
+    // day numbers and seconds of day of the steps, as in a JulianDate
+    dayNumbers: number[];
+    secondsOfDay: number[];
+    steps: TransferredField[];
+}
+
+/**
+ * Copy a plane, NaN where the mask is 0
+ * @param values
+ * @param mask
+ */
+function maskedCopy(values: Float32Array, mask: Uint8Array) {
+    const result = new Float32Array(values.length);
+
+    for (let k = 0; k < values.length; k++) {
+        result[k] = mask[k] === 1 ? values[k] : NaN;
+    }
+
+    return result;
+}
+
+function transferField(field: Field, transferables: ArrayBuffer[]): TransferredField {
+    const transferred: TransferredField = {
+        type: "regular",
+        xmin: field.xmin,
+        xmax: field.xmax,
+        ymin: field.ymin,
+        ymax: field.ymax,
+        deltaX: field.deltaX,
+        deltaY: field.deltaY,
+        cols: field.cols,
+        rows: field.rows,
+        interpolation: field.interpolation,
+        us: maskedCopy(field.us, field.mask),
+        vs: maskedCopy(field.vs, field.mask)
+    };
+
+    if (field instanceof RectilinearField || field instanceof CurvilinearField) {
+        transferred.type = field instanceof RectilinearField ? "rectilinear" : "curvilinear";
+        transferred.lons = Float64Array.from(field.lons);
+        transferred.lats = Float64Array.from(field.lats);
+
+        transferables.push(transferred.lons.buffer as ArrayBuffer, transferred.lats.buffer as ArrayBuffer);
+    }
+
+    transferables.push(transferred.us.buffer as ArrayBuffer, transferred.vs.buffer as ArrayBuffer);
+
+    return transferred;
+}
+
+/**
+ * Copy a field into transferable typed arrays
+ * @param field
+ * @returns the data to post and the buffers to transfer
+ */
+export function serializeField(field: Field | FieldSeries) {
+    const transferables: ArrayBuffer[] = [];
+
+    if (field instanceof FieldSeries) {
+        const data: TransferredFieldSeries = {
+            type: "series",
+            dayNumbers: field.steps.map((step) => step.time.dayNumber),
+            secondsOfDay: field.steps.map((step) => step.time.secondsOfDay),
+            steps: field.steps.map((step) => transferField(step.field, transferables))
+        };
+
+        return { data, transferables };
+    }
+
+    return { data: transferField(field, transferables) as TransferredField | TransferredFieldSeries, transferables };
+}
+
+function restoreField(data: TransferredField) {
+    const us = data.us;
+    const vs = data.vs;
+
+    switch (data.type) {
+        case "rectilinear":
+            return new RectilinearField({
+                lons: data.lons!,
+                lats: data.lats!,
+                us: us,
+                vs: vs,
+                interpolation: data.interpolation
+            });
+        case "curvilinear":
+            return new CurvilinearField({
+                cols: data.cols,
+                rows: data.rows,
+                lons: data.lons!,
+                lats: data.lats!,
+                us: us,
+                vs: vs,
+                interpolation: data.interpolation
+            });
+        default:
+            return new Field({
+                xmin: data.xmin,
+                xmax: data.xmax,
+                ymin: data.ymin,
+                ymax: data.ymax,
+                deltaX: data.deltaX,
+                deltaY: data.deltaY,
+                cols: data.cols,
+                rows: data.rows,
+                us: us,
+                vs: vs,
+                interpolation: data.interpolation
+            });
+    }
+}
+
+/**
+ * Rebuild a field posted by serializeField
+ * @param data
+ */
+export function deserializeField(data: TransferredField | TransferredFieldSeries) {
+    if (data.type === "series") {
+        return new FieldSeries(
+            data.steps.map((step, i) => {
+                return {
+                    time: { dayNumber: data.dayNumbers[i], secondsOfDay: data.secondsOfDay[i] },
+                    field: restoreField(step)
+                };
+            })
+        );
+    }
+
+    return restoreField(data);
+}
@@ -0,0 +1,736 @@
+import { JulianDate } from "cesium";
+import Field from "./Field";
+import FieldSeries from "./FieldSeries";
+import { pressureToHeight } from "./Units";
+
+export interface GRIB2Options {
+    /**
+     * type of the fixed surface (code table 4.5), e.g. 103 for height above ground, 100 for isobaric surface.
+     * The level of the first u message is used if undefined.
+     */
+    surfaceType?: number;
+    /**
+     * value of the fixed surface, e.g. 10 (m) or 85000 (Pa)
+     */
+    surfaceValue?: number;
+}
+
+interface GridDefinition {
+    nx: number;
+    ny: number;
+    la1: number;
+    lo1: number;
+    la2: number;
+    lo2: number;
+    dx: number;
+    dy: number;
+    scanMode: number;
+}
+
+interface DataRepresentation {
+    template: number;
+    pointCount: number;
+    referenceValue: number;
+    binaryScale: number;
+    decimalScale: number;
+    bits: number;
+
+    // complex packing (templates 5.2 and 5.3)
+    missingValueManagement?: number;
+    groupCount?: number;
+    groupWidthReference?: number;
+    groupWidthBits?: number;
+    groupLengthReference?: number;
+    groupLengthIncrement?: number;
+    lastGroupLength?: number;
+    groupLengthBits?: number;
+    spatialOrder?: number;
+    extraOctets?: number;
+}
+
+export interface GRIB2Message {
+    discipline: number;
+    parameterCategory: number;
+    parameterNumber: number;
+    surfaceType: number;
+    surfaceValue: number;
+    referenceTime: JulianDate;
+    validTime: JulianDate;
+    grid: GridDefinition;
+
+    // offsets of the sections needed to decode the values
+    representation: DataRepresentation;
+    bitmapOffset: number;
+    bitmapIndicator: number;
+    dataOffset: number;
+    dataLength: number;
+}
+
+/**
+ * A message whose grid, product or packing cannot be read, kept so that
+ * an error is only raised if its field is requested
+ */
+export interface UnsupportedGRIB2Message {
+    discipline: number;
+    parameterCategory: number;
+    parameterNumber: number;
+    reason: string;
+}
+
+// code table 4.4, indicator of unit of time range, in seconds
+const secondsPerTimeUnit: { [unit: number]: number } = {
+    0: 60,
+    1: 3600,
+    2: 86400,
+    10: 3 * 3600,
+    11: 6 * 3600,
+    12: 12 * 3600,
+    13: 1
+};
+
+/**
+ * Read bits, most significant first
+ */
+class BitReader {
+    private _bytes: Uint8Array;
+    private _position: number;
+
+    constructor(bytes: Uint8Array, byteOffset: number) {
+        this._bytes = bytes;
+        this._position = byteOffset * 8;
+    }
+
+    read(bits: number) {
+        let value = 0;
+
+        for (let i = 0; i < bits; i++) {
+            const position = this._position++;
+            const bit = (this._bytes[position >> 3] >> (7 - (position & 7))) & 1;
+
+            value = value * 2 + bit;
+        }
+
+        return value;
+    }
+
+    /**
+     * skip to the next byte boundary
+     */
+    align() {
+        this._position = Math.ceil(this._position / 8) * 8;
+    }
+}
+
+/**
+ * Reads regular latitude/longitude wind fields out of GRIB2 messages.
+ */
+class GRIB2Dataset {
+    bytes: Uint8Array;
+    view: DataView;
+    options: GRIB2Options;
+    messages: GRIB2Message[];
+    unsupportedMessages: UnsupportedGRIB2Message[] = [];
+
+    constructor(buffer: ArrayBuffer, options: GRIB2Options = {}) {
+        this.bytes = new Uint8Array(buffer);
+        this.view = new DataView(buffer);
+        this.options = options;
+        this.messages = this.parseMessages();
+    }
+
+    uint(offset: number, size: number) {
+        let value = 0;
+
+        for (let i = 0; i < size; i++) {
+            value = value * 256 + this.bytes[offset + i];
+        }
+
+        return value;
+    }
+
+    /**
+     * GRIB2 signed integers use the most significant bit as the sign
+     * @param offset
+     * @param size
+     */
+    int(offset: number, size: number) {
+        const value = this.uint(offset, size);
+        const sign = Math.pow(2, size * 8 - 1);
+
+        return value >= sign ? -(value - sign) : value;
+    }
+
+    parseMessages() {
+        const messages: GRIB2Message[] = [];
+        const bytes = this.bytes;
+
+        let offset = 0;
+
+        while (offset + 16 <= bytes.length) {
+            // Section 0: "GRIB"
+            if (
+                bytes[offset] !== 0x47 ||
+                bytes[offset + 1] !== 0x52 ||
+                bytes[offset + 2] !== 0x49 ||
+                bytes[offset + 3] !== 0x42
+            ) {
+                offset++;
+                continue;
+            }
+
+            const edition = bytes[offset + 7];
+
+            if (edition !== 2) {
+                throw new Error(`unsupported GRIB edition: ${edition}`);
+            }
+
+            const discipline = bytes[offset + 6];
+            const messageLength = this.uint(offset + 8, 8);
+
+            this.parseSections(discipline, offset + 16, offset + messageLength, messages);
+
+            offset += messageLength;
+        }
+
+        if (messages.length === 0 && this.unsupportedMessages.length === 0) {
+            throw new Error("no GRIB2 message found");
+        }
+
+        return messages;
+    }
+
+    /**
+     * A message may hold several fields, repeating sections 2 to 7 or 3 to 7 or 4 to 7
+     */
+    parseSections(discipline: number, offset: number, end: number, messages: GRIB2Message[]) {
+        let referenceTime = new JulianDate();
+        let grid: GridDefinition | undefined;
+        let product: Partial<GRIB2Message> = {};
+        let representation: DataRepresentation | undefined;
+        // why the current grid, product or packing cannot be read
+        let gridUnsupported: string | undefined;
+        let productUnsupported: string | undefined;
+        let representationUnsupported: string | undefined;
+        let bitmapOffset = -1;
+        let bitmapIndicator = 255;
+
+        while (offset < end - 4) {
+            const length = this.uint(offset, 4);
+            const section = this.bytes[offset + 4];
+
+            switch (section) {
+                case 1:
+                    referenceTime = JulianDate.fromDate(
+                        new Date(
+                            Date.UTC(
+                                this.uint(offset + 12, 2),
+                                this.bytes[offset + 14] - 1,
+                                this.bytes[offset + 15],
+                                this.bytes[offset + 16],
+                                this.bytes[offset + 17],
+                                this.bytes[offset + 18]
+                            )
+                        )
+                    );
+                    break;
+                case 3: {
+                    const result = this.parseGridDefinition(offset);
+
+                    grid = typeof result === "string" ? undefined : result;
+                    gridUnsupported = typeof result === "string" ? result : undefined;
+                    break;
+                }
+                case 4: {
+                    const result = this.parseProductDefinition(offset, referenceTime);
+
+                    // the parameter is at the same place in all product definition templates
+                    product =
+                        typeof result === "string"
+                            ? { parameterCategory: this.bytes[offset + 9], parameterNumber: this.bytes[offset + 10] }
+                            : result;
+                    productUnsupported = typeof result === "string" ? result : undefined;
+                    break;
+                }
+                case 5: {
+                    const result = this.parseDataRepresentation(offset);
+
+                    representation = typeof result === "string" ? undefined : result;
+                    representationUnsupported = typeof result === "string" ? result : undefined;
+                    break;
+                }
+                case 6:
+                    bitmapIndicator = this.bytes[offset + 5];
+
+                    // 254: the previously defined bitmap applies
+                    if (bitmapIndicator === 0) {
+                        bitmapOffset = offset + 6;
+                    } else if (bitmapIndicator !== 254) {
+                        bitmapOffset = -1;
+                    }
+                    break;
+                case 7: {
+                    const unsupported = gridUnsupported ?? productUnsupported ?? representationUnsupported;
+
+                    if (unsupported !== undefined) {
+                        this.unsupportedMessages.push({
+                            discipline: discipline,
+                            parameterCategory: product.parameterCategory!,
+                            parameterNumber: product.parameterNumber!,
+                            reason: unsupported
+                        });
+                        break;
+                    }
+
+                    if (!grid || !representation) {
+                        throw new Error("GRIB2 data section found before the grid and data representation");
+                    }
+
+                    messages.push({
+                        ...(product as GRIB2Message),
+                        discipline: discipline,
+                        referenceTime: referenceTime,
+                        grid: grid,
+                        representation: representation,
+                        bitmapOffset: bitmapOffset,
+                        bitmapIndicator: bitmapIndicator,
+                        dataOffset: offset + 5,
+                        dataLength: length - 5
+                    });
+                    break;
+                }
+            }
+
+            offset += length;
+        }
+    }
+
+    /**
+     * @returns the grid, or why it cannot be read
+     */
+    parseGridDefinition(offset: number): GridDefinition | string {
+        const template = this.uint(offset + 12, 2);
+
+        if (template !== 0) {
+            return `unsupported GRIB2 grid definition template 3.${template}, only regular lat/lon is supported`;
+        }
+
+        const basicAngle = this.uint(offset + 38, 4);
+        const subdivisions = this.uint(offset + 42, 4);
+        const unit =
+            basicAngle === 0 || basicAngle === 0xffffffff || subdivisions === 0xffffffff
+                ? 1e-6
+                : basicAngle / subdivisions;
+
+        return {
+            nx: this.uint(offset + 30, 4),
+            ny: this.uint(offset + 34, 4),
+            la1: this.int(offset + 46, 4) * unit,
+            lo1: this.int(offset + 50, 4) * unit,
+            la2: this.int(offset + 55, 4) * unit,
+            lo2: this.int(offset + 59, 4) * unit,
+            dx: this.uint(offset + 63, 4) * unit,
+            dy: this.uint(offset + 67, 4) * unit,
+            scanMode: this.bytes[offset + 71]
+        };
+    }
+
+    /**
+     * @returns the parameter, level and time of the product, or why they cannot be read
+     */
+    parseProductDefinition(offset: number, referenceTime: JulianDate): Partial<GRIB2Message> | string {
+        const template = this.uint(offset + 7, 2);
+
+        // templates 4.0, 4.1, 4.2, 4.8 ... share the first octets
+        if (template > 15) {
+            return `unsupported GRIB2 product definition template 4.${template}`;
+        }
+
+        const timeUnit = this.bytes[offset + 17];
+        const forecastTime = this.int(offset + 18, 4);
+        const secondsPerUnit = secondsPerTimeUnit[timeUnit];
+
+        if (secondsPerUnit === undefined) {
+            return `unsupported GRIB2 unit of time range: ${timeUnit}`;
+        }
+
+        const scale = this.int(offset + 23, 1);
+        const scaledValue = this.int(offset + 24, 4);
+
+        return {
+            parameterCategory: this.bytes[offset + 9],
+            parameterNumber: this.bytes[offset + 10],
+            surfaceType: this.bytes[offset + 22],
+            surfaceValue: scaledValue / Math.pow(10, scale),
+            validTime: JulianDate.addSeconds(referenceTime, forecastTime * secondsPerUnit, new JulianDate())
+        };
+    }
+
+    /**
+     * @returns the packing of the values, or why they cannot be unpacked
+     */
+    parseDataRepresentation(offset: number): DataRepresentation | string {
+        const template = this.uint(offset + 9, 2);
+
+        if (template !== 0 && template !== 2 && template !== 3) {
+            return `unsupported GRIB2 data representation template 5.${template}, only simple and complex packing are supported`;
+        }
+
+        const representation: DataRepresentation = {
+            template: template,
+            pointCount: this.uint(offset + 5, 4),
+            referenceValue: this.view.getFloat32(offset + 11),
+            binaryScale: this.int(offset + 15, 2),
+            decimalScale: this.int(offset + 17, 2),
+            bits: this.bytes[offset + 19]
+        };
+
+        if (template === 2 || template === 3) {
+            representation.missingValueManagement = this.bytes[offset + 22];
+            representation.groupCount = this.uint(offset + 31, 4);
+            representation.groupWidthReference = this.bytes[offset + 35];
+            representation.groupWidthBits = this.bytes[offset + 36];
+            representation.groupLengthReference = this.uint(offset + 37, 4);
+            representation.groupLengthIncrement = this.bytes[offset + 41];
+            representation.lastGroupLength = this.uint(offset + 42, 4);
+            representation.groupLengthBits = this.bytes[offset + 46];
+        }
+
+        if (template === 3) {
+            representation.spatialOrder = this.bytes[offset + 47];
+            representation.extraOctets = this.bytes[offset + 48];
+        }
+
+        return representation;
+    }
+
+    /**
+     * Unpack the values of a message, null for missing points, in the scanning order of the grid
+     * @param message
+     */
+    decode(message: GRIB2Message) {
+        const representation = message.representation;
+        const packed =
+            representation.template === 0
+                ? this.unpackSimple(message)
+                : this.unpackComplex(message, representation.template === 3);
+
+        const grid = message.grid;
+        const count = grid.nx * grid.ny;
+        const values: (number | null)[] = new Array(count);
+
+        const binary = Math.pow(2, representation.binaryScale);
+        const decimal = Math.pow(10, -representation.decimalScale);
+        const reference = representation.referenceValue;
+
+        const hasBitmap = message.bitmapOffset !== -1;
+        let k = 0;
+
+        for (let i = 0; i < count; i++) {
+            if (hasBitmap && ((this.bytes[message.bitmapOffset + (i >> 3)] >> (7 - (i & 7))) & 1) === 0) {
+                values[i] = null;
+                continue;
+            }
+
+            const x = packed[k++];
+
+            values[i] = x === null ? null : (reference + x * binary) * decimal;
+        }
+
+        return values;
+    }
+
+    unpackSimple(message: GRIB2Message) {
+        const representation = message.representation;
+        const reader = new BitReader(this.bytes, message.dataOffset);
+        const packed: (number | null)[] = new Array(representation.pointCount);
+
+        for (let i = 0; i < representation.pointCount; i++) {
+            packed[i] = representation.bits === 0 ? 0 : reader.read(representation.bits);
+        }
+
+        return packed;
+    }
+
+    /**
+     * Complex packing with optional spatial differencing, see GRIB2 templates 5.2/5.3 and 7.2/7.3
+     * @param message
+     * @param spatialDifferencing
+     */
+    unpackComplex(message: GRIB2Message, spatialDifferencing: boolean) {
+        const r = message.representation;
+        const reader = new BitReader(this.bytes, message.dataOffset);
+
+        const groupCount = r.groupCount!;
+        const order = spatialDifferencing ? r.spatialOrder! : 0;
+        const firstValues: number[] = [];
+        let minimum = 0;
+
+        if (order > 0) {
+            const octets = r.extraOctets!;
+
+            for (let i = 0; i < order; i++) {
+                firstValues.push(reader.read(octets * 8));
+            }
+
+            const raw = reader.read(octets * 8);
+            const sign = Math.pow(2, octets * 8 - 1);
+
+            minimum = raw >= sign ? -(raw - sign) : raw;
+        }
+
+        const references = new Array(groupCount);
+        const widths = new Array(groupCount);
+        const lengths = new Array(groupCount);
+
+        for (let i = 0; i < groupCount; i++) {
+            references[i] = r.bits === 0 ? 0 : reader.read(r.bits);
+        }
+
+        reader.align();
+
+        for (let i = 0; i < groupCount; i++) {
+            widths[i] = r.groupWidthReference! + reader.read(r.groupWidthBits!);
+        }
+
+        reader.align();
+
+        for (let i = 0; i < groupCount; i++) {
+            lengths[i] = r.groupLengthReference! + reader.read(r.groupLengthBits!) * r.groupLengthIncrement!;
+        }
+
+        lengths[groupCount - 1] = r.lastGroupLength!;
+
+        reader.align();
+
+        const management = r.missingValueManagement ?? 0;
+        const packed: (number | null)[] = [];
+
+        for (let g = 0; g < groupCount; g++) {
+            const width = widths[g];
+            const reference = references[g];
+
+            for (let i = 0; i < lengths[g]; i++) {
+                if (width === 0) {
+                    const maxReference = Math.pow(2, r.bits) - 1;
+
+                    if (
+                        (management >= 1 && reference === maxReference) ||
+                        (management === 2 && reference === maxReference - 1)
+                    ) {
+                        packed.push(null);
+                    } else {
+                        packed.push(reference);
+                    }
+
+                    continue;
+                }
+
+                const value = reader.read(width);
+                const maxValue = Math.pow(2, width) - 1;
+
+                if ((management >= 1 && value === maxValue) || (management === 2 && value === maxValue - 1)) {
+                    packed.push(null);
+                } else {
+                    packed.push(reference + value);
+                }
+            }
+        }
+
+        if (order === 0) {
+            return packed;
+        }
+
+        // undo the spatial differencing, skipping missing values
+        let seen = 0;
+        let previous = 0;
+        let beforePrevious = 0;
+
+        for (let i = 0; i < packed.length; i++) {
+            const value = packed[i];
+
+            if (value === null) {
+                continue;
+            }
+
+            let restored;
+
+            if (seen < order) {
+                restored = firstValues[seen];
+            } else if (order === 1) {
+                restored = value + minimum + previous;
+            } else {
+                restored = value + minimum + 2 * previous - beforePrevious;
+            }
+
+            packed[i] = restored;
+            beforePrevious = previous;
+            previous = restored;
+            seen++;
+        }
+
+        return packed;
+    }
+
+    /**
+     * Reorder values to rows from north to south and columns from west to east
+     * @param values
+     * @param grid
+     */
+    normalize(values: (number | null)[], grid: GridDefinition) {
+        const nx = grid.nx;
+        const ny = grid.ny;
+
+        const iNegative = (grid.scanMode & 0x80) !== 0;
+        const jPositive = (grid.scanMode & 0x40) !== 0;
+        const jConsecutive = (grid.scanMode & 0x20) !== 0;
+        const boustrophedon = (grid.scanMode & 0x10) !== 0;
+
+        if (!iNegative && !jPositive && !jConsecutive && !boustrophedon) {
+            return values;
+        }
+
+        const result: (number | null)[] = new Array(nx * ny);
+
+        for (let k = 0; k < values.length; k++) {
+            let i = jConsecutive ? Math.floor(k / ny) : k % nx;
+            let j = jConsecutive ? k % ny : Math.floor(k / nx);
+
+            if (boustrophedon && !jConsecutive && j % 2 === 1) {
+                i = nx - 1 - i;
+            }
+
+            if (iNegative) {
+                i = nx - 1 - i;
+            }
+
+            if (jPositive) {
+                j = ny - 1 - j;
+            }
+
+            result[j * nx + i] = values[k];
+        }
+
+        return result;
+    }
+
+    isU(message: GRIB2Message | UnsupportedGRIB2Message) {
+        return message.discipline === 0 && message.parameterCategory === 2 && message.parameterNumber === 2;
+    }
+
+    isV(message: GRIB2Message | UnsupportedGRIB2Message) {
+        return message.discipline === 0 && message.parameterCategory === 2 && message.parameterNumber === 3;
+    }
+
+    createField(uMessage: GRIB2Message, vMessage: GRIB2Message) {
+        const grid = uMessage.grid;
+
+        if (grid.nx !== vMessage.grid.nx || grid.ny !== vMessage.grid.ny) {
+            throw new Error("GRIB2 u and v messages are on different grids");
+        }
+
+        const us = this.normalize(this.decode(uMessage), grid);
+        const vs = this.normalize(this.decode(vMessage), grid);
+
+        const iNegative = (grid.scanMode & 0x80) !== 0;
+
+        const xmin = iNegative ? grid.lo2 : grid.lo1;
+        const xmax = iNegative ? grid.lo1 : grid.lo2;
+
+        return new Field({
+            xmin: xmin,
+            ymin: Math.min(grid.la1, grid.la2),
+            xmax: xmax < xmin ? xmax + 360 : xmax,
+            ymax: Math.max(grid.la1, grid.la2),
+            deltaX: grid.dx,
+            deltaY: grid.dy,
+            cols: grid.nx,
+            rows: grid.ny,
+            us: us,
+            vs: vs,
+            height: this.surfaceHeight(uMessage)
+        });
+    }
+
+    /**
+     * Height in meters of the fixed surface of a message:
+     * isobaric surfaces in the standard atmosphere, heights above the sea or the ground as they are
+     * @returns undefined for other surface types
+     */
+    surfaceHeight(message: GRIB2Message) {
+        switch (message.surfaceType) {
+            case 100:
+                return pressureToHeight(message.surfaceValue / 100);
+            case 102:
+            case 103:
+                return message.surfaceValue;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Build the field of the u/v messages at the requested level, a FieldSeries if there are several times.
+     */
+    read(): Field | FieldSeries {
+        const uMessages = this.messages.filter((message) => this.isU(message));
+        const unsupportedU = this.unsupportedMessages.find((message) => this.isU(message));
+        const unsupportedV = this.unsupportedMessages.find((message) => this.isV(message));
+
+        if (uMessages.length === 0) {
+            throw new Error(unsupportedU?.reason ?? "no UGRD message found in the GRIB2 data");
+        }
+
+        const surfaceType = this.options.surfaceType ?? uMessages[0].surfaceType;
+        const surfaceValue = this.options.surfaceValue ?? uMessages[0].surfaceValue;
+
+        const atLevel = (message: GRIB2Message) =>
+            message.surfaceType === surfaceType && message.surfaceValue === surfaceValue;
+
+        const steps = [];
+
+        for (let i = 0; i < uMessages.length; i++) {
+            const uMessage = uMessages[i];
+
+            if (!atLevel(uMessage)) {
+                continue;
+            }
+
+            const vMessage = this.messages.find(
+                (message) =>
+                    this.isV(message) && atLevel(message) && JulianDate.equals(message.validTime, uMessage.validTime)
+            );
+
+            if (!vMessage) {
+                throw new Error(
+                    unsupportedV?.reason ??
+                        `no VGRD message matching UGRD at ${JulianDate.toIso8601(uMessage.validTime)}`
+                );
+            }
+
+            steps.push({
+                time: uMessage.validTime,
+                field: this.createField(uMessage, vMessage)
+            });
+        }
+
+        if (steps.length === 0) {
+            if (unsupportedU) {
+                throw new Error(unsupportedU.reason);
+            }
+
+            const levels = uMessages.map((message) => `${message.surfaceType}:${message.surfaceValue}`);
+
+            throw new Error(
+                `no UGRD message at surface ${surfaceType}:${surfaceValue}, available: ${levels.join(", ")}`
+            );
+        }
+
+        if (steps.length === 1) {
+            return steps[0].field;
+        }
+
+        return new FieldSeries(steps);
+    }
+}
+
+export default GRIB2Dataset;
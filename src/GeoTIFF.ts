@@ -0,0 +1,647 @@
+import Field from "./Field";
+
+export interface GeoTIFFOptions {
+    /**
+     * meaning of the two bands, "uv" by default
+     */
+    layout?: "uv" | "speedDirection";
+    /**
+     * indexes of the u/v or speed/direction bands, [0, 1] by default
+     */
+    bands?: [number, number];
+    /**
+     * for speedDirection, whether the direction (in degrees) is where the wind comes from or goes to, "from" by default
+     */
+    directionConvention?: "from" | "to";
+    /**
+     * index of the image in the file, 0 (the full resolution image of a COG) by default
+     */
+    image?: number;
+    /**
+     * nodata value overriding the GDAL_NODATA tag
+     */
+    noData?: number;
+}
+
+interface IFD {
+    [tag: number]: number[] | string;
+}
+
+const Tag = {
+    ImageWidth: 256,
+    ImageLength: 257,
+    BitsPerSample: 258,
+    Compression: 259,
+    StripOffsets: 273,
+    SamplesPerPixel: 277,
+    RowsPerStrip: 278,
+    StripByteCounts: 279,
+    PlanarConfiguration: 284,
+    Predictor: 317,
+    TileWidth: 322,
+    TileLength: 323,
+    TileOffsets: 324,
+    TileByteCounts: 325,
+    SampleFormat: 339,
+    ModelPixelScale: 33550,
+    ModelTiepoint: 33922,
+    ModelTransformation: 34264,
+    GeoKeyDirectory: 34735,
+    GDALNoData: 42113
+};
+
+// size in bytes of the TIFF field types
+const typeSizes: { [type: number]: number } = {
+    1: 1,
+    2: 1,
+    3: 2,
+    4: 4,
+    5: 8,
+    6: 1,
+    7: 1,
+    8: 2,
+    9: 4,
+    10: 8,
+    11: 4,
+    12: 8,
+    16: 8,
+    17: 8,
+    18: 8
+};
+
+/**
+ * TIFF flavour of LZW, most significant bit first with early change
+ * @param input
+ */
+function decodeLZW(input: Uint8Array) {
+    const output: number[] = [];
+    const dictionary: number[][] = [];
+
+    let position = 0;
+    let codeLength = 9;
+    let previous: number[] | null = null;
+
+    const resetDictionary = () => {
+        dictionary.length = 258;
+
+        for (let i = 0; i < 256; i++) {
+            dictionary[i] = [i];
+        }
+
+        codeLength = 9;
+        previous = null;
+    };
+
+    const readCode = () => {
+        let code = 0;
+
+        for (let i = 0; i < codeLength; i++) {
+            const bit = (input[position >> 3] >> (7 - (position & 7))) & 1;
+
+            code = (code << 1) | bit;
+            position++;
+        }
+
+        return code;
+    };
+
+    resetDictionary();
+
+    while (position + codeLength <= input.length * 8) {
+        const code = readCode();
+
+        // end of information
+        if (code === 257) {
+            break;
+        }
+
+        // clear code
+        if (code === 256) {
+            resetDictionary();
+            continue;
+        }
+
+        let entry: number[];
+
+        if (code < dictionary.length) {
+            entry = dictionary[code];
+
+            if (previous) {
+                dictionary.push(previous.concat(entry[0]));
+            }
+        } else if (previous) {
+            entry = previous.concat(previous[0]);
+            dictionary.push(entry);
+        } else {
+            throw new Error("invalid LZW data");
+        }
+
+        for (let i = 0; i < entry.length; i++) {
+            output.push(entry[i]);
+        }
+
+        previous = entry;
+
+        if (dictionary.length + 1 >= 1 << codeLength && codeLength < 12) {
+            codeLength++;
+        }
+    }
+
+    return new Uint8Array(output);
+}
+
+async function decodeDeflate(input: Uint8Array) {
+    const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream("deflate"));
+    const buffer = await new Response(stream).arrayBuffer();
+
+    return new Uint8Array(buffer);
+}
+
+/**
+ * Reads two-band wind rasters in EPSG:4326 out of GeoTIFF and Cloud-Optimized GeoTIFF files.
+ */
+class GeoTIFFDataset {
+    bytes: Uint8Array;
+    view: DataView;
+    options: GeoTIFFOptions;
+    littleEndian: boolean;
+    bigTiff: boolean;
+    ifds: IFD[];
+
+    constructor(buffer: ArrayBuffer, options: GeoTIFFOptions = {}) {
+        this.bytes = new Uint8Array(buffer);
+        this.view = new DataView(buffer);
+        this.options = options;
+
+        const byteOrder = String.fromCharCode(this.bytes[0], this.bytes[1]);
+
+        if (byteOrder !== "II" && byteOrder !== "MM") {
+            throw new Error("not a TIFF file");
+        }
+
+        this.littleEndian = byteOrder === "II";
+
+        const magic = this.view.getUint16(2, this.littleEndian);
+
+        if (magic !== 42 && magic !== 43) {
+            throw new Error(`invalid TIFF magic number: ${magic}`);
+        }
+
+        this.bigTiff = magic === 43;
+        this.ifds = this.parseIFDs();
+    }
+
+    readOffset(offset: number) {
+        if (this.bigTiff) {
+            return Number(this.view.getBigUint64(offset, this.littleEndian));
+        }
+
+        return this.view.getUint32(offset, this.littleEndian);
+    }
+
+    parseIFDs() {
+        const ifds: IFD[] = [];
+
+        let offset = this.readOffset(this.bigTiff ? 8 : 4);
+
+        while (offset !== 0) {
+            const entryCount = this.bigTiff
+                ? Number(this.view.getBigUint64(offset, this.littleEndian))
+                : this.view.getUint16(offset, this.littleEndian);
+
+            const headerSize = this.bigTiff ? 8 : 2;
+            const entrySize = this.bigTiff ? 20 : 12;
+            const ifd: IFD = {};
+
+            for (let i = 0; i < entryCount; i++) {
+                const entryOffset = offset + headerSize + i * entrySize;
+                const tag = this.view.getUint16(entryOffset, this.littleEndian);
+
+                ifd[tag] = this.readEntry(entryOffset);
+            }
+
+            ifds.push(ifd);
+
+            offset = this.readOffset(offset + headerSize + entryCount * entrySize);
+        }
+
+        return ifds;
+    }
+
+    readEntry(entryOffset: number): number[] | string {
+        const type = this.view.getUint16(entryOffset + 2, this.littleEndian);
+        const count = this.bigTiff
+            ? Number(this.view.getBigUint64(entryOffset + 4, this.littleEndian))
+            : this.view.getUint32(entryOffset + 4, this.littleEndian);
+
+        const size = typeSizes[type];
+
+        if (size === undefined) {
+            throw new Error(`unsupported TIFF field type: ${type}`);
+        }
+
+        const inlineOffset = entryOffset + (this.bigTiff ? 12 : 8);
+        const inlineSize = this.bigTiff ? 8 : 4;
+        const valueOffset = size * count <= inlineSize ? inlineOffset : this.readOffset(inlineOffset);
+
+        if (type === 2) {
+            let text = "";
+
+            for (let i = 0; i < count; i++) {
+                const code = this.bytes[valueOffset + i];
+
+                if (code === 0) {
+                    break;
+                }
+
+                text += String.fromCharCode(code);
+            }
+
+            return text;
+        }
+
+        const values: number[] = [];
+        const view = this.view;
+        const le = this.littleEndian;
+
+        for (let i = 0; i < count; i++) {
+            const o = valueOffset + i * size;
+
+            switch (type) {
+                case 1:
+                case 7:
+                    values.push(view.getUint8(o));
+                    break;
+                case 6:
+                    values.push(view.getInt8(o));
+                    break;
+                case 3:
+                    values.push(view.getUint16(o, le));
+                    break;
+                case 8:
+                    values.push(view.getInt16(o, le));
+                    break;
+                case 4:
+                    values.push(view.getUint32(o, le));
+                    break;
+                case 9:
+                    values.push(view.getInt32(o, le));
+                    break;
+                case 5:
+                    values.push(view.getUint32(o, le) / view.getUint32(o + 4, le));
+                    break;
+                case 10:
+                    values.push(view.getInt32(o, le) / view.getInt32(o + 4, le));
+                    break;
+                case 11:
+                    values.push(view.getFloat32(o, le));
+                    break;
+                case 12:
+                    values.push(view.getFloat64(o, le));
+                    break;
+                case 16:
+                case 18:
+                    values.push(Number(view.getBigUint64(o, le)));
+                    break;
+                case 17:
+                    values.push(Number(view.getBigInt64(o, le)));
+                    break;
+            }
+        }
+
+        return values;
+    }
+
+    /**
+     * GeoKeys as a map of key id to value
+     * @param ifd
+     */
+    geoKeys(ifd: IFD) {
+        const directory = ifd[Tag.GeoKeyDirectory] as number[] | undefined;
+        const keys: { [key: number]: number } = {};
+
+        if (!directory) {
+            return keys;
+        }
+
+        for (let i = 4; i + 3 < directory.length; i += 4) {
+            // only short values stored in the directory itself are needed
+            if (directory[i + 1] === 0) {
+                keys[directory[i]] = directory[i + 3];
+            }
+        }
+
+        return keys;
+    }
+
+    number(ifd: IFD, tag: number, defaultValue?: number) {
+        const value = ifd[tag] as number[] | undefined;
+
+        if (value === undefined) {
+            if (defaultValue === undefined) {
+                throw new Error(`missing TIFF tag ${tag}`);
+            }
+
+            return defaultValue;
+        }
+
+        return value[0];
+    }
+
+    async decompress(ifd: IFD, chunk: Uint8Array) {
+        const compression = this.number(ifd, Tag.Compression, 1);
+
+        switch (compression) {
+            case 1:
+                return chunk;
+            case 5:
+                return decodeLZW(chunk);
+            case 8:
+            case 32946:
+                return decodeDeflate(chunk);
+            default:
+                throw new Error(`unsupported TIFF compression: ${compression}`);
+        }
+    }
+
+    /**
+     * Undo the horizontal (2) or floating point (3) predictor on a decompressed chunk
+     */
+    unpredict(ifd: IFD, chunk: Uint8Array, width: number, samples: number, bytesPerSample: number) {
+        const predictor = this.number(ifd, Tag.Predictor, 1);
+
+        if (predictor === 1) {
+            return chunk;
+        }
+
+        const rowSize = width * samples * bytesPerSample;
+        const rows = Math.floor(chunk.length / rowSize);
+
+        if (predictor === 2) {
+            const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+            const le = this.littleEndian;
+
+            for (let row = 0; row < rows; row++) {
+                for (let i = samples; i < width * samples; i++) {
+                    const o = row * rowSize + i * bytesPerSample;
+                    const p = o - samples * bytesPerSample;
+
+                    if (bytesPerSample === 1) {
+                        view.setUint8(o, view.getUint8(o) + view.getUint8(p));
+                    } else if (bytesPerSample === 2) {
+                        view.setUint16(o, view.getUint16(o, le) + view.getUint16(p, le), le);
+                    } else {
+                        view.setUint32(o, view.getUint32(o, le) + view.getUint32(p, le), le);
+                    }
+                }
+            }
+
+            return chunk;
+        }
+
+        if (predictor === 3) {
+            const result = new Uint8Array(chunk.length);
+
+            for (let row = 0; row < rows; row++) {
+                const start = row * rowSize;
+
+                for (let i = samples; i < rowSize; i++) {
+                    chunk[start + i] = (chunk[start + i] + chunk[start + i - samples]) & 0xff;
+                }
+
+                // bytes are stored by significance, most significant first
+                const count = width * samples;
+
+                for (let i = 0; i < count; i++) {
+                    for (let b = 0; b < bytesPerSample; b++) {
+                        const significance = this.littleEndian ? bytesPerSample - 1 - b : b;
+
+                        result[start + i * bytesPerSample + significance] = chunk[start + b * count + i];
+                    }
+                }
+            }
+
+            return result;
+        }
+
+        throw new Error(`unsupported TIFF predictor: ${predictor}`);
+    }
+
+    /**
+     * Read the raster bands as arrays of numbers in row-major order
+     * @param ifd
+     */
+    async readBands(ifd: IFD) {
+        const width = this.number(ifd, Tag.ImageWidth);
+        const height = this.number(ifd, Tag.ImageLength);
+        const samples = this.number(ifd, Tag.SamplesPerPixel, 1);
+        const bits = this.number(ifd, Tag.BitsPerSample, 1);
+        const format = this.number(ifd, Tag.SampleFormat, 1);
+        const planar = this.number(ifd, Tag.PlanarConfiguration, 1) === 2;
+        const bytesPerSample = bits / 8;
+
+        if (bits % 8 !== 0) {
+            throw new Error(`unsupported TIFF bits per sample: ${bits}`);
+        }
+
+        const tiled = ifd[Tag.TileWidth] !== undefined;
+        const chunkWidth = tiled ? this.number(ifd, Tag.TileWidth) : width;
+        const chunkHeight = tiled ? this.number(ifd, Tag.TileLength) : this.number(ifd, Tag.RowsPerStrip, height);
+        const offsets = ifd[tiled ? Tag.TileOffsets : Tag.StripOffsets] as number[];
+        const byteCounts = ifd[tiled ? Tag.TileByteCounts : Tag.StripByteCounts] as number[];
+
+        if (!offsets || !byteCounts) {
+            throw new Error("TIFF image has no strip or tile offsets");
+        }
+
+        const chunksAcross = Math.ceil(width / chunkWidth);
+        const chunksDown = Math.ceil(height / chunkHeight);
+        const chunksPerPlane = chunksAcross * chunksDown;
+
+        const bands: Float64Array[] = [];
+
+        for (let s = 0; s < samples; s++) {
+            bands.push(new Float64Array(width * height));
+        }
+
+        const readSample = (view: DataView, o: number) => {
+            const le = this.littleEndian;
+
+            if (format === 3) {
+                return bytesPerSample === 4 ? view.getFloat32(o, le) : view.getFloat64(o, le);
+            }
+
+            if (format === 2) {
+                if (bytesPerSample === 1) return view.getInt8(o);
+                if (bytesPerSample === 2) return view.getInt16(o, le);
+                return view.getInt32(o, le);
+            }
+
+            if (bytesPerSample === 1) return view.getUint8(o);
+            if (bytesPerSample === 2) return view.getUint16(o, le);
+            return view.getUint32(o, le);
+        };
+
+        for (let c = 0; c < offsets.length; c++) {
+            const plane = planar ? Math.floor(c / chunksPerPlane) : 0;
+            const index = c % chunksPerPlane;
+            const chunkX = (index % chunksAcross) * chunkWidth;
+            const chunkY = Math.floor(index / chunksAcross) * chunkHeight;
+            const chunkSamples = planar ? 1 : samples;
+
+            const compressed = this.bytes.subarray(offsets[c], offsets[c] + byteCounts[c]);
+            const decompressed = await this.decompress(ifd, compressed);
+            const data = this.unpredict(ifd, decompressed, chunkWidth, chunkSamples, bytesPerSample);
+            const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+            for (let y = 0; y < chunkHeight && chunkY + y < height; y++) {
+                for (let x = 0; x < chunkWidth && chunkX + x < width; x++) {
+                    const pixel = (chunkY + y) * width + chunkX + x;
+                    const base = (y * chunkWidth + x) * chunkSamples * bytesPerSample;
+
+                    for (let s = 0; s < chunkSamples; s++) {
+                        bands[planar ? plane : s][pixel] = readSample(view, base + s * bytesPerSample);
+                    }
+                }
+            }
+        }
+
+        return { width, height, bands };
+    }
+
+    /**
+     * Geotransform of the image: the coordinates of the first pixel center and the pixel size.
+     * deltaY is negative for south-up rasters.
+     * @param ifd
+     */
+    geoTransform(ifd: IFD) {
+        const keys = this.geoKeys(ifd);
+
+        // ProjectedCSTypeGeoKey
+        if (keys[3072] !== undefined) {
+            throw new Error(`unsupported projected GeoTIFF (EPSG:${keys[3072]}), only EPSG:4326 is supported`);
+        }
+
+        // GeographicTypeGeoKey
+        if (keys[2048] !== undefined && keys[2048] !== 4326 && keys[2048] !== 32767) {
+            throw new Error(`unsupported geographic GeoTIFF (EPSG:${keys[2048]}), only EPSG:4326 is supported`);
+        }
+
+        // GTRasterTypeGeoKey: 1 pixel is area, 2 pixel is point
+        const pixelIsPoint = keys[1025] === 2;
+
+        let originX: number;
+        let originY: number;
+        let deltaX: number;
+        let deltaY: number;
+
+        const transformation = ifd[Tag.ModelTransformation] as number[] | undefined;
+        const tiepoint = ifd[Tag.ModelTiepoint] as number[] | undefined;
+        const scale = ifd[Tag.ModelPixelScale] as number[] | undefined;
+
+        if (transformation) {
+            if (transformation[1] !== 0 || transformation[4] !== 0) {
+                throw new Error("rotated GeoTIFF is not supported");
+            }
+
+            originX = transformation[3];
+            originY = transformation[7];
+            deltaX = transformation[0];
+            deltaY = -transformation[5];
+        } else if (tiepoint && scale) {
+            deltaX = scale[0];
+            deltaY = scale[1];
+            originX = tiepoint[3] - tiepoint[0] * deltaX;
+            originY = tiepoint[4] + tiepoint[1] * deltaY;
+        } else {
+            throw new Error("GeoTIFF has no georeferencing");
+        }
+
+        if (!pixelIsPoint) {
+            originX += deltaX / 2;
+            originY -= deltaY / 2;
+        }
+
+        return { originX, originY, deltaX, deltaY };
+    }
+
+    async read() {
+        const options = this.options;
+        const ifd = this.ifds[options.image ?? 0];
+
+        if (!ifd) {
+            throw new Error(`image ${options.image} not found, the file has ${this.ifds.length} images`);
+        }
+
+        const { width, height, bands } = await this.readBands(ifd);
+        const { originX, originY, deltaX, deltaY } = this.geoTransform(ifd);
+
+        const bandIndexes = options.bands ?? [0, 1];
+
+        if (bands[bandIndexes[0]] === undefined || bands[bandIndexes[1]] === undefined) {
+            throw new Error(`bands ${bandIndexes.join(", ")} not found, the image has ${bands.length} bands`);
+        }
+
+        const first = bands[bandIndexes[0]];
+        const second = bands[bandIndexes[1]];
+
+        const gdalNoData = ifd[Tag.GDALNoData] as string | undefined;
+        const noData = options.noData ?? (gdalNoData !== undefined ? parseFloat(gdalNoData) : undefined);
+
+        const isMissing = (value: number) =>
+            isNaN(value) || (noData !== undefined && (value === noData || Math.fround(noData) === value));
+
+        const speedDirection = options.layout === "speedDirection";
+        const sign = (options.directionConvention ?? "from") === "from" ? -1 : 1;
+
+        // rows are stored from north to south in the field
+        const southUp = deltaY < 0;
+        const count = width * height;
+        const us: (number | null)[] = new Array(count);
+        const vs: (number | null)[] = new Array(count);
+
+        for (let row = 0; row < height; row++) {
+            const sourceRow = southUp ? height - 1 - row : row;
+
+            for (let col = 0; col < width; col++) {
+                const source = sourceRow * width + col;
+                const target = row * width + col;
+
+                const a = first[source];
+                const b = second[source];
+
+                if (isMissing(a) || isMissing(b)) {
+                    us[target] = null;
+                    vs[target] = null;
+                } else if (speedDirection) {
+                    const direction = (b * Math.PI) / 180;
+
+                    us[target] = sign * a * Math.sin(direction);
+                    vs[target] = sign * a * Math.cos(direction);
+                } else {
+                    us[target] = a;
+                    vs[target] = b;
+                }
+            }
+        }
+
+        const absDeltaY = Math.abs(deltaY);
+        const firstY = originY;
+        const lastY = originY - (height - 1) * deltaY;
+
+        return new Field({
+            xmin: originX,
+            ymin: Math.min(firstY, lastY),
+            xmax: originX + (width - 1) * deltaX,
+            ymax: Math.max(firstY, lastY),
+            deltaX: deltaX,
+            deltaY: absDeltaY,
+            cols: width,
+            rows: height,
+            us: us,
+            vs: vs
+        });
+    }
+}
+
+export default GeoTIFFDataset;
@@ -0,0 +1,109 @@
+/**
+ * euler: one step with the velocity at the start
+ * rk2: midpoint method
+ * rk4: classic fourth order Runge-Kutta
+ */
+export type IntegratorMethod = "euler" | "rk2" | "rk4";
+
+/**
+ * Write the displacement in degrees of longitude and latitude for one step into out
+ * @returns false where there is no data
+ */
+export type Velocity = (lon: number, lat: number, out: Float64Array) => boolean;
+
+// cos(latitude) is clamped so that particles don't jump across the poles
+const minCosLatitude = 0.01;
+
+export const metersPerDegree = 111111;
+
+// scratch buffers of the intermediate slopes
+const k1 = new Float64Array(2);
+const k2 = new Float64Array(2);
+const k3 = new Float64Array(2);
+const k4 = new Float64Array(2);
+
+/**
+ * Convert an eastward/northward speed to a displacement in degrees,
+ * a degree of longitude being cos(latitude) times shorter than a degree of latitude
+ * @param u eastward component
+ * @param v northward component
+ * @param lat latitude in degrees
+ * @param scale degrees of latitude per unit of speed
+ * @param out receives the displacement
+ */
+export function toDegrees(u: number, v: number, lat: number, scale: number, out: Float64Array) {
+    const cosLatitude = Math.max(minCosLatitude, Math.cos((lat * Math.PI) / 180));
+
+    out[0] = (u * scale) / cosLatitude;
+    out[1] = v * scale;
+}
+
+/**
+ * Longitude brought into [-180, 180)
+ * @param lon
+ */
+export function wrapLongitude(lon: number) {
+    return lon - 360 * Math.floor((lon + 180) / 360);
+}
+
+function sample(velocity: Velocity, lon: number, lat: number, out: Float64Array) {
+    if (lat > 90 || lat < -90) {
+        return false;
+    }
+
+    return velocity(wrapLongitude(lon), lat, out);
+}
+
+/**
+ * Advance a position by one step
+ * @param method
+ * @param lon
+ * @param lat
+ * @param velocity
+ * @param out receives the new position, longitude not wrapped
+ * @param start displacement at the start position, if already known
+ * @returns false if the path leaves the data
+ */
+export function integrate(
+    method: IntegratorMethod,
+    lon: number,
+    lat: number,
+    velocity: Velocity,
+    out: Float64Array,
+    start?: Float64Array
+) {
+    const s1 = start ?? k1;
+
+    if (!start && !sample(velocity, lon, lat, k1)) {
+        return false;
+    }
+
+    if (method === "euler") {
+        out[0] = lon + s1[0];
+        out[1] = lat + s1[1];
+        return true;
+    }
+
+    if (!sample(velocity, lon + s1[0] / 2, lat + s1[1] / 2, k2)) {
+        return false;
+    }
+
+    if (method === "rk2") {
+        out[0] = lon + k2[0];
+        out[1] = lat + k2[1];
+        return true;
+    }
+
+    if (!sample(velocity, lon + k2[0] / 2, lat + k2[1] / 2, k3)) {
+        return false;
+    }
+
+    if (!sample(velocity, lon + k3[0], lat + k3[1], k4)) {
+        return false;
+    }
+
+    out[0] = lon + (s1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]) / 6;
+    out[1] = lat + (s1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]) / 6;
+
+    return true;
+}
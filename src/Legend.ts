@@ -0,0 +1,299 @@
+import { EventHelper, Scene, destroyObject } from "cesium";
+import CesiumParticles from "./CesiumParticles";
+import ColorScale from "./ColorScale";
+import { SpeedUnit, beaufortLimits, metersPerSecondIn } from "./Units";
+
+export type LegendUnit = SpeedUnit;
+
+export interface LegendOptions {
+    orientation?: "horizontal" | "vertical";
+    // unit of the speed labels, "m/s" by default
+    unit?: LegendUnit;
+    // length and thickness of the colorbar in pixels
+    length?: number;
+    thickness?: number;
+    // approximate number of tick labels
+    ticks?: number;
+    // title above the colorbar, the colored quantity and unit by default
+    title?: string;
+}
+
+/**
+ * Anything with a container element and a scene, e.g. a Viewer or a CesiumWidget
+ */
+export interface LegendHost {
+    container: Element;
+    scene: Scene;
+}
+
+/**
+ * Round step between about count ticks over a span, 1, 2 or 5 times a power of ten
+ * @param span
+ * @param count
+ */
+function niceStep(span: number, count: number) {
+    const raw = span / Math.max(1, count);
+    const power = Math.pow(10, Math.floor(Math.log10(raw)));
+    const fraction = raw / power;
+
+    if (fraction < 1.5) {
+        return power;
+    }
+
+    if (fraction < 3.5) {
+        return 2 * power;
+    }
+
+    if (fraction < 7.5) {
+        return 5 * power;
+    }
+
+    return 10 * power;
+}
+
+function formatTick(value: number, step: number) {
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+
+    return value.toFixed(Math.min(decimals, 6));
+}
+
+/**
+ * Colorbar of the particle colors, with tick labels.
+ * It follows the color scale, the colored quantity and the range of the particles,
+ * checking them when setOptions changes the options of the particles or another field is assigned.
+ */
+class Legend {
+    element: HTMLDivElement;
+    options: LegendOptions;
+
+    private _particles: CesiumParticles;
+    private _eventHelper = new EventHelper();
+    private _title: HTMLDivElement;
+    private _bar: HTMLCanvasElement;
+    private _labels: HTMLDivElement;
+
+    // what the legend was last drawn for
+    private _colorScale?: ColorScale;
+    private _colorBy?: string;
+    private _min = NaN;
+    private _max = NaN;
+
+    constructor(particles: CesiumParticles, options: LegendOptions = {}) {
+        this._particles = particles;
+        this.options = options;
+
+        const vertical = options.orientation === "vertical";
+
+        this.element = document.createElement("div");
+        this.element.className = "wind-legend";
+        this.element.style.cssText =
+            "position: absolute; padding: 6px 8px; border-radius: 4px; background: rgba(38, 38, 38, 0.75);" +
+            "color: #fff; font: 11px sans-serif; pointer-events: none;" +
+            (vertical ? "right: 10px; top: 50%; transform: translateY(-50%);" : "left: 10px; bottom: 40px;");
+
+        this._title = document.createElement("div");
+        this._title.style.cssText = "margin-bottom: 4px; white-space: nowrap;";
+
+        this._bar = document.createElement("canvas");
+        this._bar.style.cssText = "display: block;";
+
+        this._labels = document.createElement("div");
+        this._labels.style.cssText = "position: relative;";
+
+        const body = document.createElement("div");
+        body.style.cssText = vertical ? "display: flex;" : "";
+        body.appendChild(this._bar);
+        body.appendChild(this._labels);
+
+        this.element.appendChild(this._title);
+        this.element.appendChild(body);
+    }
+
+    /**
+     * Add the legend to the container of a viewer and follow the options and the field of the particles
+     * @param host
+     */
+    mount(host: LegendHost) {
+        this.unmount();
+
+        host.container.appendChild(this.element);
+
+        this._eventHelper.add(this._particles.optionsChanged, () => this.update());
+        this._eventHelper.add(this._particles.fieldChanged, () => this.update());
+
+        this.update(true);
+    }
+
+    /**
+     * Change options of the legend, e.g. the unit, and redraw it
+     * @param options
+     */
+    setOptions(options: Partial<LegendOptions>) {
+        this.options = { ...this.options, ...options };
+
+        this.update(true);
+    }
+
+    unmount() {
+        this._eventHelper.removeAll();
+        this.element.parentNode?.removeChild(this.element);
+    }
+
+    /**
+     * Redraw if the color scale, the colored quantity or the range changed
+     * @param force redraw anyway
+     */
+    update(force = false) {
+        const particles = this._particles;
+        const colorScale = particles.colorScale;
+        const colorBy = particles.options.colorBy ?? "speed";
+
+        if (colorBy === "speed" && !particles.field && !colorScale.domain && !particles.options.colorRange) {
+            return;
+        }
+
+        const range = particles.colorRange();
+
+        if (
+            !force &&
+            colorScale === this._colorScale &&
+            colorBy === this._colorBy &&
+            range[0] === this._min &&
+            range[1] === this._max
+        ) {
+            return;
+        }
+
+        this._colorScale = colorScale;
+        this._colorBy = colorBy;
+        this._min = range[0];
+        this._max = range[1];
+
+        this.render();
+    }
+
+    render() {
+        const vertical = this.options.orientation === "vertical";
+        const length = this.options.length ?? 240;
+        const thickness = this.options.thickness ?? 12;
+        const colorScale = this._colorScale!;
+        const min = this._min;
+        const max = this._max;
+
+        this._title.textContent = this.options.title ?? this.defaultTitle();
+
+        const bar = this._bar;
+        bar.width = vertical ? thickness : length;
+        bar.height = vertical ? length : thickness;
+
+        const ctx = bar.getContext("2d")!;
+        const range: [number, number] = [min, max];
+
+        // one pixel line per color sample, values increasing to the right or upwards
+        for (let p = 0; p < length; p++) {
+            const value = min + ((p + 0.5) / length) * (max - min);
+
+            ctx.fillStyle = colorScale.colors[colorScale.bucketFor(value, range)];
+
+            if (vertical) {
+                ctx.fillRect(0, length - p - 1, thickness, 1);
+            } else {
+                ctx.fillRect(p, 0, 1, thickness);
+            }
+        }
+
+        const labels = this._labels;
+        labels.innerHTML = "";
+        labels.style.width = vertical ? "40px" : length + "px";
+        labels.style.height = vertical ? length + "px" : "14px";
+
+        const ticks = this.ticks();
+
+        for (let k = 0; k < ticks.length; k++) {
+            const position = max > min ? (ticks[k].value - min) / (max - min) : 0;
+
+            const label = document.createElement("span");
+            label.textContent = ticks[k].label;
+            label.style.cssText =
+                "position: absolute; white-space: nowrap;" +
+                (vertical
+                    ? `left: 4px; top: ${(1 - position) * length}px; transform: translateY(-50%);`
+                    : `top: 2px; left: ${position * length}px; transform: translateX(-50%);`);
+
+            labels.appendChild(label);
+        }
+    }
+
+    defaultTitle() {
+        switch (this._colorBy) {
+            case "direction":
+                return "Direction (°)";
+            case "age":
+                return "Age (frames)";
+            case "scalar":
+                return "Value";
+            default:
+                return this.options.unit === "beaufort" ? "Beaufort" : `Speed (${this.options.unit ?? "m/s"})`;
+        }
+    }
+
+    /**
+     * Tick positions in the colored value (m/s for speeds) and their labels
+     */
+    ticks() {
+        const min = this._min;
+        const max = this._max;
+        const count = this.options.ticks ?? 5;
+        const ticks: { value: number; label: string }[] = [];
+
+        if (!(max > min)) {
+            return ticks;
+        }
+
+        const unit = this.options.unit ?? "m/s";
+
+        if (this._colorBy !== "speed") {
+            const step = niceStep(max - min, count);
+
+            for (let k = Math.ceil(min / step); k * step <= max; k++) {
+                ticks.push({ value: k * step, label: formatTick(k * step, step) });
+            }
+
+            return ticks;
+        }
+
+        if (unit === "beaufort") {
+            // label each force at the speed it starts from
+            for (let force = 0; force <= beaufortLimits.length; force++) {
+                const value = force === 0 ? 0 : beaufortLimits[force - 1];
+
+                if (value >= min && value <= max) {
+                    ticks.push({ value: value, label: String(force) });
+                }
+            }
+
+            return ticks;
+        }
+
+        const factor = metersPerSecondIn[unit];
+        const step = niceStep((max - min) * factor, count);
+
+        for (let k = Math.ceil((min * factor) / step); k * step <= max * factor; k++) {
+            ticks.push({ value: (k * step) / factor, label: formatTick(k * step, step) });
+        }
+
+        return ticks;
+    }
+
+    isDestroyed() {
+        return false;
+    }
+
+    destroy() {
+        this.unmount();
+
+        return destroyObject(this);
+    }
+}
+
+export default Legend;
@@ -0,0 +1,567 @@
+import { JulianDate } from "cesium";
+import { NetCDFReader } from "netcdfjs";
+import Field from "./Field";
+import FieldSeries from "./FieldSeries";
+import RectilinearField from "./RectilinearField";
+import CurvilinearField from "./CurvilinearField";
+import { pressureToHeight } from "./Units";
+
+export interface NetCDFOptions {
+    /**
+     * name of the longitude variable, e.g. "longitude", "lon"
+     */
+    lonName?: string;
+    /**
+     * name of the latitude variable, e.g. "latitude", "lat"
+     */
+    latName?: string;
+    /**
+     * name of the eastward wind variable, e.g. "u10", "u", "uo"
+     */
+    uName?: string;
+    /**
+     * name of the northward wind variable, e.g. "v10", "v", "vo"
+     */
+    vName?: string;
+    /**
+     * name of the time dimension
+     */
+    timeName?: string;
+    /**
+     * name of the vertical level dimension
+     */
+    levelName?: string;
+    /**
+     * time to read. All times are read into a FieldSeries if undefined.
+     */
+    timeIndex?: number;
+    /**
+     * vertical level to read, 0 by default
+     */
+    levelIndex?: number;
+    /**
+     * apply the CF scale_factor and add_offset attributes, true by default
+     */
+    unpack?: boolean;
+    /**
+     * raw value treated as missing in addition to _FillValue and missing_value
+     */
+    fillValue?: number;
+}
+
+interface Variable {
+    name: string;
+    dimensions: number[];
+    attributes: { name: string; type: string; value: string | number | number[] }[];
+    type: string;
+    size: number;
+    offset: number;
+    record: boolean;
+}
+
+const lonCandidates = ["longitude", "lon", "x", "nav_lon", "lon_rho"];
+const latCandidates = ["latitude", "lat", "y", "nav_lat", "lat_rho"];
+const uCandidates = ["u10", "u", "uo", "ugrd", "u-component_of_wind", "water_u", "UGRD"];
+const vCandidates = ["v10", "v", "vo", "vgrd", "v-component_of_wind", "water_v", "VGRD"];
+const timeCandidates = ["time", "valid_time", "ocean_time", "t", "Time"];
+const levelCandidates = ["level", "lev", "isobaricInhPa", "pressure_level", "plev", "depth", "z", "s_rho"];
+
+const secondsPerUnit: { [unit: string]: number } = {
+    second: 1,
+    seconds: 1,
+    s: 1,
+    minute: 60,
+    minutes: 60,
+    hour: 3600,
+    hours: 3600,
+    h: 3600,
+    day: 86400,
+    days: 86400,
+    d: 86400
+};
+
+/**
+ * Convert a CF time value, e.g. with units "hours since 1900-01-01 00:00:00.0", to a JulianDate.
+ * @param value
+ * @param units
+ */
+export function cfTimeToJulianDate(value: number, units: string) {
+    const match = /^\s*(\w+)\s+since\s+(\S+)(?:[\sT]+(\S+))?/.exec(units);
+
+    if (!match) {
+        throw new Error(`invalid time units: ${units}`);
+    }
+
+    const factor = secondsPerUnit[match[1].toLowerCase()];
+
+    if (factor === undefined) {
+        throw new Error(`unsupported time unit: ${match[1]}`);
+    }
+
+    let clock = match[3] ?? "00:00:00";
+
+    if (!/(Z|[+-]\d\d:?\d\d)$/.test(clock)) {
+        clock += "Z";
+    }
+
+    const epoch = JulianDate.fromIso8601(`${match[2]}T${clock}`);
+
+    return JulianDate.addSeconds(epoch, value * factor, new JulianDate());
+}
+
+/**
+ * Whether the coordinates are evenly spaced
+ * @param values
+ */
+function isRegular(values: number[]) {
+    const count = values.length;
+
+    if (count < 3) {
+        return true;
+    }
+
+    const step = (values[count - 1] - values[0]) / (count - 1);
+
+    for (let i = 1; i < count; i++) {
+        if (Math.abs(values[i] - values[i - 1] - step) > Math.abs(step) * 1e-3) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function getAttribute(variable: Variable, name: string) {
+    const attribute = variable.attributes.find((a) => a.name === name);
+
+    return attribute ? attribute.value : undefined;
+}
+
+/**
+ * Numeric attribute, the first value of an array attribute
+ * @returns undefined if missing or not a number
+ */
+function getNumberAttribute(variable: Variable, name: string) {
+    const value = getAttribute(variable, name);
+    const number = Array.isArray(value) ? value[0] : value;
+
+    return typeof number === "number" ? number : undefined;
+}
+
+/**
+ * Height in meters of a vertical coordinate value
+ * @param value
+ * @param units e.g. "m", "km", "hPa", "Pa"
+ * @param positive CF direction of the axis, "down" for depths
+ * @returns undefined for unknown units
+ */
+function levelHeight(value: number, units: string, positive?: string) {
+    const sign = positive === "down" ? -1 : 1;
+
+    switch (units) {
+        case "m":
+        case "meter":
+        case "meters":
+        case "metre":
+        case "metres":
+            return sign * value;
+        case "km":
+            return sign * value * 1000;
+        case "hPa":
+        case "mbar":
+        case "millibar":
+        case "millibars":
+            return pressureToHeight(value);
+        case "Pa":
+            return pressureToHeight(value / 100);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Reads wind fields out of a NetCDF v3 file.
+ */
+class NetCDFDataset {
+    reader: NetCDFReader;
+    options: NetCDFOptions;
+
+    constructor(buffer: ArrayBuffer, options: NetCDFOptions = {}) {
+        this.reader = new NetCDFReader(buffer);
+        this.options = options;
+    }
+
+    get variables() {
+        return this.reader.variables as unknown as Variable[];
+    }
+
+    dimensionName(index: number) {
+        return this.reader.dimensions[index].name;
+    }
+
+    /**
+     * Find a variable by its configured name, by a list of usual names or by its CF standard_name
+     * @param role used in the error message
+     * @param name configured name
+     * @param candidates
+     * @param standardName
+     */
+    findVariable(role: string, name: string | undefined, candidates: string[], standardName?: string) {
+        const variables = this.variables;
+
+        if (name !== undefined) {
+            const variable = variables.find((v) => v.name === name);
+
+            if (!variable) {
+                throw new Error(
+                    `NetCDF ${role} variable '${name}' not found, available variables: ${this.describeVariables()}`
+                );
+            }
+
+            return variable;
+        }
+
+        for (let i = 0; i < candidates.length; i++) {
+            const variable = variables.find((v) => v.name === candidates[i]);
+
+            if (variable) {
+                return variable;
+            }
+        }
+
+        if (standardName) {
+            const variable = variables.find((v) => getAttribute(v, "standard_name") === standardName);
+
+            if (variable) {
+                return variable;
+            }
+        }
+
+        throw new Error(
+            `NetCDF ${role} variable not found, tried ${candidates.join(", ")}; ` +
+                `set the ${role}Name option. Available variables: ${this.describeVariables()}`
+        );
+    }
+
+    describeVariables() {
+        return this.variables
+            .map((v) => `${v.name}(${v.dimensions.map((d) => this.dimensionName(d)).join(", ")})`)
+            .join(", ");
+    }
+
+    /**
+     * Read a variable as numbers, applying the CF packing and mapping fill values to null
+     * @param variable
+     */
+    readValues(variable: Variable) {
+        const raw = this.reader.getDataVariable(variable.name).flat() as number[];
+
+        const unpack = this.options.unpack ?? true;
+        const scaleFactor = unpack ? getNumberAttribute(variable, "scale_factor") ?? 1 : 1;
+        const addOffset = unpack ? getNumberAttribute(variable, "add_offset") ?? 0 : 0;
+
+        const fillValues = [
+            getNumberAttribute(variable, "_FillValue"),
+            getNumberAttribute(variable, "missing_value"),
+            this.options.fillValue
+        ].filter((value) => typeof value === "number" && !isNaN(value)) as number[];
+
+        const values: (number | null)[] = new Array(raw.length);
+
+        for (let i = 0; i < raw.length; i++) {
+            const value = raw[i];
+
+            if (typeof value !== "number" || isNaN(value) || fillValues.indexOf(value) !== -1) {
+                values[i] = null;
+            } else {
+                values[i] = value * scaleFactor + addOffset;
+            }
+        }
+
+        return values;
+    }
+
+    readCoordinates(variable: Variable, maxDimensions = 1) {
+        if (variable.dimensions.length < 1 || variable.dimensions.length > maxDimensions) {
+            throw new Error(
+                `NetCDF coordinate variable '${variable.name}' must be ${maxDimensions === 1 ? "1D" : "1D or 2D"}, ` +
+                    `got ${variable.dimensions.length} dimensions`
+            );
+        }
+
+        return this.reader.getDataVariable(variable.name).flat() as number[];
+    }
+
+    /**
+     * Height of a level from the coordinate variable of the level dimension,
+     * or from a scalar coordinate of the wind variable, e.g. heightAboveGround of u10
+     * @param wind the u variable
+     * @param name name of the level dimension, undefined if the variable has none
+     * @param index
+     * @returns undefined without a coordinate variable or with unknown units
+     */
+    readLevelHeight(wind: Variable, name: string | undefined, index: number) {
+        let variable: Variable | undefined;
+
+        if (name !== undefined) {
+            variable = this.variables.find((v) => v.name === name && v.dimensions.length === 1);
+        } else {
+            const coordinates = getAttribute(wind, "coordinates");
+            const names = typeof coordinates === "string" ? coordinates.split(/\s+/) : [];
+
+            variable = this.variables.find(
+                (v) =>
+                    names.indexOf(v.name) !== -1 &&
+                    v.dimensions.length === 0 &&
+                    levelHeight(0, String(getAttribute(v, "units")).trim()) !== undefined
+            );
+        }
+
+        const units = variable && getAttribute(variable, "units");
+
+        if (!variable || typeof units !== "string") {
+            return undefined;
+        }
+
+        const values = this.reader.getDataVariable(variable.name).flat() as number[];
+
+        const positive = getAttribute(variable, "positive");
+
+        return levelHeight(
+            values[name !== undefined ? index : 0],
+            units.trim(),
+            typeof positive === "string" ? positive : undefined
+        );
+    }
+
+    /**
+     * Read the u/v fields. Multiple times are read into a FieldSeries unless timeIndex is set.
+     */
+    read(): Field | FieldSeries {
+        const options = this.options;
+
+        const lonVariable = this.findVariable("lon", options.lonName, lonCandidates, "longitude");
+        const latVariable = this.findVariable("lat", options.latName, latCandidates, "latitude");
+        const uVariable = this.findVariable("u", options.uName, uCandidates, "eastward_wind");
+        const vVariable = this.findVariable("v", options.vName, vCandidates, "northward_wind");
+
+        const lons = this.readCoordinates(lonVariable, 2);
+        const lats = this.readCoordinates(latVariable, 2);
+
+        // 2D coordinates, e.g. lon_rho(eta_rho, xi_rho), describe a curvilinear grid
+        const curvilinear = lonVariable.dimensions.length === 2;
+
+        if (curvilinear && lonVariable.dimensions.join() !== latVariable.dimensions.join()) {
+            throw new Error(
+                `NetCDF 2D coordinates '${lonVariable.name}' and '${latVariable.name}' have different dimensions`
+            );
+        }
+
+        const lonDimension = curvilinear ? lonVariable.dimensions[1] : lonVariable.dimensions[0];
+        const latDimension = latVariable.dimensions[0];
+
+        if (uVariable.dimensions.join() !== vVariable.dimensions.join()) {
+            throw new Error(`NetCDF variables '${uVariable.name}' and '${vVariable.name}' have different dimensions`);
+        }
+
+        const dimensions = uVariable.dimensions;
+        const lonAxis = dimensions.indexOf(lonDimension);
+        const latAxis = dimensions.indexOf(latDimension);
+
+        if (lonAxis === -1 || latAxis === -1) {
+            throw new Error(
+                `NetCDF variable '${uVariable.name}' is not defined on the ` +
+                    `'${lonVariable.name}'/'${latVariable.name}' grid: ${this.describeVariables()}`
+            );
+        }
+
+        const sizes = dimensions.map((d) => this.reader.dimensions[d].size);
+        // the record dimension size is 0 in the header
+        if (uVariable.record) {
+            sizes[0] = this.reader.recordDimension.length;
+        }
+
+        const strides = new Array(sizes.length);
+        strides[sizes.length - 1] = 1;
+
+        for (let axis = sizes.length - 2; axis >= 0; axis--) {
+            strides[axis] = strides[axis + 1] * sizes[axis + 1];
+        }
+
+        const otherAxes = dimensions.map((_, axis) => axis).filter((axis) => axis !== lonAxis && axis !== latAxis);
+        const names = dimensions.map((d) => this.dimensionName(d));
+
+        let timeAxis = -1;
+        let levelAxis = -1;
+
+        if (options.timeName !== undefined) {
+            timeAxis = names.indexOf(options.timeName);
+
+            if (timeAxis === -1) {
+                throw new Error(`NetCDF time dimension '${options.timeName}' not found in ${names.join(", ")}`);
+            }
+        } else {
+            timeAxis = otherAxes.find((axis) => timeCandidates.indexOf(names[axis]) !== -1) ?? -1;
+        }
+
+        if (options.levelName !== undefined) {
+            levelAxis = names.indexOf(options.levelName);
+
+            if (levelAxis === -1) {
+                throw new Error(`NetCDF level dimension '${options.levelName}' not found in ${names.join(", ")}`);
+            }
+        } else {
+            levelAxis = otherAxes.find((axis) => levelCandidates.indexOf(names[axis]) !== -1) ?? -1;
+        }
+
+        // an unknown leading dimension is assumed to be the time, any other one the level
+        otherAxes.forEach((axis) => {
+            if (axis === timeAxis || axis === levelAxis) {
+                return;
+            }
+
+            if (timeAxis === -1) {
+                timeAxis = axis;
+            } else if (levelAxis === -1) {
+                levelAxis = axis;
+            } else if (sizes[axis] > 1) {
+                throw new Error(`NetCDF dimension '${names[axis]}' of '${uVariable.name}' is not supported`);
+            }
+        });
+
+        const levelIndex = options.levelIndex ?? 0;
+        const levelCount = levelAxis === -1 ? 1 : sizes[levelAxis];
+
+        if (levelIndex < 0 || levelIndex >= levelCount) {
+            throw new Error(`levelIndex ${levelIndex} out of range [0, ${levelCount - 1}]`);
+        }
+
+        const height = this.readLevelHeight(uVariable, levelAxis === -1 ? undefined : names[levelAxis], levelIndex);
+
+        const timeCount = timeAxis === -1 ? 1 : sizes[timeAxis];
+
+        if (options.timeIndex !== undefined && (options.timeIndex < 0 || options.timeIndex >= timeCount)) {
+            throw new Error(`timeIndex ${options.timeIndex} out of range [0, ${timeCount - 1}]`);
+        }
+
+        const us = this.readValues(uVariable);
+        const vs = this.readValues(vVariable);
+
+        const cols = curvilinear ? this.reader.dimensions[lonDimension].size : lons.length;
+        const rows = curvilinear ? this.reader.dimensions[latDimension].size : lats.length;
+
+        // rows of regular grids are stored from north to south in the field
+        const flipY = !curvilinear && lats[0] < lats[rows - 1];
+
+        const regular = !curvilinear && isRegular(lons) && isRegular(lats);
+
+        const xmin = Math.min(lons[0], lons[cols - 1]);
+        const xmax = Math.max(lons[0], lons[cols - 1]);
+        const ymin = Math.min(lats[0], lats[rows - 1]);
+        const ymax = Math.max(lats[0], lats[rows - 1]);
+
+        // grid points are at both ends of the coordinates
+        const deltaX = (xmax - xmin) / (cols - 1);
+        const deltaY = (ymax - ymin) / (rows - 1);
+
+        const slice = (values: (number | null)[], timeIndex: number) => {
+            let offset = 0;
+
+            if (timeAxis !== -1) {
+                offset += timeIndex * strides[timeAxis];
+            }
+
+            if (levelAxis !== -1) {
+                offset += levelIndex * strides[levelAxis];
+            }
+
+            const result: (number | null)[] = new Array(cols * rows);
+
+            for (let j = 0; j < rows; j++) {
+                const row = flipY ? rows - 1 - j : j;
+
+                for (let i = 0; i < cols; i++) {
+                    result[j * cols + i] = values[offset + row * strides[latAxis] + i * strides[lonAxis]];
+                }
+            }
+
+            return result;
+        };
+
+        const createField = (timeIndex: number) => {
+            const fieldUs = slice(us, timeIndex);
+            const fieldVs = slice(vs, timeIndex);
+
+            if (curvilinear) {
+                return new CurvilinearField({
+                    cols: cols,
+                    rows: rows,
+                    lons: lons,
+                    lats: lats,
+                    us: fieldUs,
+                    vs: fieldVs,
+                    height: height
+                });
+            }
+
+            if (!regular) {
+                return new RectilinearField({
+                    lons: lons,
+                    lats: flipY ? lats.slice().reverse() : lats,
+                    us: fieldUs,
+                    vs: fieldVs,
+                    height: height
+                });
+            }
+
+            return new Field({
+                xmin: xmin,
+                ymin: ymin,
+                xmax: xmax,
+                ymax: ymax,
+                deltaX: deltaX,
+                deltaY: deltaY,
+                cols: cols,
+                rows: rows,
+                us: fieldUs,
+                vs: fieldVs,
+                height: height
+            });
+        };
+
+        if (options.timeIndex !== undefined) {
+            return createField(options.timeIndex);
+        }
+
+        if (timeCount === 1) {
+            return createField(0);
+        }
+
+        const timeName = names[timeAxis];
+        const timeVariable = this.variables.find((variable) => variable.name === timeName);
+
+        if (!timeVariable) {
+            throw new Error(`NetCDF time variable '${timeName}' not found, set the timeIndex option to read one time`);
+        }
+
+        const units = getAttribute(timeVariable, "units");
+
+        if (typeof units !== "string") {
+            throw new Error(`NetCDF time variable '${timeName}' has no units`);
+        }
+
+        const timeValues = this.readCoordinates(timeVariable);
+        const steps = [];
+
+        for (let i = 0; i < timeCount; i++) {
+            steps.push({
+                time: cfTimeToJulianDate(timeValues[i], units),
+                field: createField(i)
+            });
+        }
+
+        return new FieldSeries(steps);
+    }
+}
+
+export default NetCDFDataset;
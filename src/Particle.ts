@@ -2,6 +2,8 @@ interface Particle {
     age: number;
     x: number;
     y: number;
+    // height in meters, in volume fields
+    z?: number;
     xt?: number;
     yt?: number;
     m?: number;
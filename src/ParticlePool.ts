@@ -0,0 +1,58 @@
+/**
+ * Particles stored as a struct of typed arrays, one entry per particle.
+ * (x, y) is the current position and (xt, yt) the end of the last step,
+ * valid only where visible is 1.
+ * z and zt are the heights in meters, used with volume fields.
+ */
+class ParticlePool {
+    readonly count: number;
+    age: Int32Array;
+    x: Float64Array;
+    y: Float64Array;
+    xt: Float64Array;
+    yt: Float64Array;
+    z: Float64Array;
+    zt: Float64Array;
+    // speed and components at the start of the last step
+    m: Float32Array;
+    u: Float32Array;
+    v: Float32Array;
+    visible: Uint8Array;
+
+    constructor(count: number) {
+        this.count = count;
+        this.age = new Int32Array(count);
+        this.x = new Float64Array(count);
+        this.y = new Float64Array(count);
+        this.xt = new Float64Array(count);
+        this.yt = new Float64Array(count);
+        this.z = new Float64Array(count);
+        this.zt = new Float64Array(count);
+        this.m = new Float32Array(count);
+        this.u = new Float32Array(count);
+        this.v = new Float32Array(count);
+        this.visible = new Uint8Array(count);
+    }
+
+    /**
+     * Copy a particle into another pool
+     * @param from index in this pool
+     * @param target
+     * @param to index in the target pool
+     */
+    copyTo(from: number, target: ParticlePool, to: number) {
+        target.age[to] = this.age[from];
+        target.x[to] = this.x[from];
+        target.y[to] = this.y[from];
+        target.xt[to] = this.xt[from];
+        target.yt[to] = this.yt[from];
+        target.z[to] = this.z[from];
+        target.zt[to] = this.zt[from];
+        target.m[to] = this.m[from];
+        target.u[to] = this.u[from];
+        target.v[to] = this.v[from];
+        target.visible[to] = this.visible[from];
+    }
+}
+
+export default ParticlePool;
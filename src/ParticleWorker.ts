@@ -0,0 +1,119 @@
+import Field, { SeedFallback } from "./Field";
+import FieldSeries, { SeriesTime } from "./FieldSeries";
+import Particle from "./Particle";
+import ParticlePool from "./ParticlePool";
+import { advectParticles } from "./Advection";
+import { deserializeField } from "./FieldTransfer";
+import { ParticleWorkerRequest, SegmentsResponse, StepRequest, segmentStride } from "./WorkerMessages";
+
+/**
+ * Web Worker stepping the particles through the field.
+ * The main thread sends the field once, visible seed positions in batches,
+ * and gets back the segments to draw after every step.
+ */
+
+const scope = self as unknown as Worker;
+
+// seeds kept for restarting particles, older ones are dropped
+const maxSeeds = 20000;
+
+let field: Field | FieldSeries | undefined;
+let particles = new ParticlePool(0);
+let seeds: number[] = [];
+let seedFallback: SeedFallback = "extent";
+
+const time: SeriesTime = { dayNumber: 0, secondsOfDay: 0 };
+
+// position picked by the field when no seed is left
+const fallback: Particle = { age: 0, x: 0, y: 0 };
+
+function reseed(index: number) {
+    if (seeds.length >= 2) {
+        particles.y[index] = seeds.pop()!;
+        particles.x[index] = seeds.pop()!;
+        return true;
+    }
+
+    // no visible position available, pick one in the field extent
+    if (!field!.assignRandomPosition(fallback, 0, 0, () => null, { maxTries: 0, fallback: seedFallback })) {
+        return false;
+    }
+
+    particles.x[index] = fallback.x;
+    particles.y[index] = fallback.y;
+
+    return true;
+}
+
+function step(request: StepRequest) {
+    if (!field) {
+        return;
+    }
+
+    if (field instanceof FieldSeries && request.dayNumber !== undefined) {
+        time.dayNumber = request.dayNumber;
+        time.secondsOfDay = request.secondsOfDay!;
+        field.setTime(time);
+    }
+
+    advectParticles(particles, field, request, reseed);
+
+    const segments = new Float32Array(particles.count * segmentStride);
+    let count = 0;
+
+    for (let i = 0; i < particles.count; i++) {
+        if (particles.age[i] > request.maxAge || particles.visible[i] === 0) {
+            continue;
+        }
+
+        const offset = count * segmentStride;
+
+        segments[offset] = particles.x[i];
+        segments[offset + 1] = particles.y[i];
+        segments[offset + 2] = particles.xt[i];
+        segments[offset + 3] = particles.yt[i];
+        segments[offset + 4] = particles.m[i];
+        segments[offset + 5] = particles.u[i];
+        segments[offset + 6] = particles.v[i];
+        segments[offset + 7] = particles.age[i];
+
+        particles.x[i] = particles.xt[i];
+        particles.y[i] = particles.yt[i];
+
+        count++;
+    }
+
+    const response: SegmentsResponse = { type: "segments", segments: segments, count: count };
+
+    scope.postMessage(response, [segments.buffer]);
+}
+
+scope.onmessage = (event: MessageEvent<ParticleWorkerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+        case "init":
+            field = deserializeField(request.field);
+            seeds = Array.from(request.seeds);
+            seedFallback = request.fallback;
+            particles = new ParticlePool(request.count);
+
+            for (let i = 0; i < request.count; i++) {
+                // unplaced particles wait for seeds
+                particles.age[i] = reseed(i) ? Math.floor(Math.random() * request.maxAge) : request.maxAge + 1;
+            }
+            break;
+        case "seeds":
+            for (let i = 0; i < request.seeds.length; i++) {
+                seeds.push(request.seeds[i]);
+            }
+
+            if (seeds.length > maxSeeds) {
+                seeds.splice(0, seeds.length - maxSeeds);
+            }
+            break;
+        case "step":
+            step(request);
+            break;
+    }
+};
@@ -0,0 +1,146 @@
+import {
+    Cartesian2,
+    Cartesian3,
+    Cartographic,
+    Ellipsoid,
+    EllipsoidalOccluder,
+    IntersectionTests,
+    Math as CesiumMath,
+    Ray,
+    OrthographicOffCenterFrustum,
+    Scene,
+    SceneMode,
+    SceneTransforms
+} from "cesium";
+
+const scratchScreenPosition = new Cartesian2();
+const scratchPosition = new Cartesian3();
+const mapCorner = new Cartographic(Math.PI, CesiumMath.PI_OVER_TWO);
+
+// occluder of the last scene, moved with its camera
+let occluder: EllipsoidalOccluder | undefined;
+
+// the globe ellipsoid raised by a height, kept for the last height asked
+let raisedEllipsoid: Ellipsoid | undefined;
+let raisedHeight = NaN;
+
+function ellipsoidAt(ellipsoid: Ellipsoid, height: number) {
+    if (raisedEllipsoid === undefined || height !== raisedHeight) {
+        const radii = ellipsoid.radii;
+
+        raisedEllipsoid = new Ellipsoid(radii.x + height, radii.y + height, radii.z + height);
+        raisedHeight = height;
+    }
+
+    return raisedEllipsoid;
+}
+
+/**
+ * Window position of lon-lat coordinates
+ * @param scene
+ * @param coordinate lon, lat in degrees
+ * @param height meters above the ellipsoid
+ * @returns null if the position is not in front of the camera
+ */
+export function projectCoordinate(scene: Scene, coordinate: [number, number], height = 0): [number, number] | null {
+    const position = Cartesian3.fromDegrees(coordinate[0], coordinate[1], height, undefined, scratchPosition);
+
+    const windowPosition = SceneTransforms.worldToWindowCoordinates(scene, position);
+
+    if (!windowPosition) {
+        return null;
+    }
+
+    return [windowPosition.x, windowPosition.y];
+}
+
+/**
+ * lon-lat coordinates of the globe under a window position
+ * @param scene
+ * @param pixel
+ * @param height meters above the ellipsoid of the picked surface, the rendered globe with its terrain if undefined.
+ * The flat maps of 2D and Columbus view are picked at height 0.
+ * @returns null off the globe
+ */
+export function unprojectPixel(scene: Scene, pixel: [number, number], height?: number): [number, number] | null {
+    scratchScreenPosition.x = pixel[0];
+    scratchScreenPosition.y = pixel[1];
+
+    const ray = scene.camera.getPickRay(scratchScreenPosition);
+
+    if (!ray) {
+        return null;
+    }
+
+    let cartesian: Cartesian3 | undefined;
+
+    if (height === undefined) {
+        cartesian = scene.globe.pick(ray, scene);
+    } else if (scene.mode !== SceneMode.SCENE3D) {
+        cartesian = scene.camera.pickEllipsoid(scratchScreenPosition, scene.globe.ellipsoid, scratchPosition);
+    } else {
+        const interval = IntersectionTests.rayEllipsoid(ray, ellipsoidAt(scene.globe.ellipsoid, height));
+
+        cartesian = interval ? Ray.getPoint(ray, interval.start, scratchPosition) : undefined;
+    }
+
+    if (!cartesian) {
+        return null;
+    }
+
+    const ellipsoid = scene.globe.ellipsoid;
+    const cartographic = ellipsoid.cartesianToCartographic(cartesian);
+    const lat = CesiumMath.toDegrees(cartographic.latitude);
+    const lng = CesiumMath.toDegrees(cartographic.longitude);
+
+    return [lng, lat];
+}
+
+/**
+ * Whether lon-lat coordinates are on the side of the globe facing the camera.
+ * Nothing is hidden by the globe on the flat maps of 2D and Columbus view,
+ * points behind the camera are left out by projectCoordinate.
+ * @param scene
+ * @param coordinate
+ * @param height meters above the ellipsoid, points above it are seen further over the horizon
+ */
+export function isCoordinateVisible(scene: Scene, coordinate: [number, number], height = 0) {
+    if (scene.mode !== SceneMode.SCENE3D) {
+        return true;
+    }
+
+    const ellipsoid = scene.globe.ellipsoid;
+    const cameraPosition = scene.camera.positionWC;
+
+    if (occluder === undefined || occluder.ellipsoid !== ellipsoid) {
+        occluder = new EllipsoidalOccluder(ellipsoid, cameraPosition);
+    } else if (!Cartesian3.equals(occluder.cameraPosition, cameraPosition)) {
+        occluder.cameraPosition = cameraPosition;
+    }
+
+    const point = Cartesian3.fromDegrees(coordinate[0], coordinate[1], height, undefined, scratchPosition);
+
+    return occluder.isPointVisible(point);
+}
+
+/**
+ * Width in window pixels of one copy of the world on the infinitely scrolling 2D map
+ * @param scene
+ * @returns 0 in the other scene modes
+ */
+export function mapWidthInPixels(scene: Scene) {
+    const frustum = scene.camera.frustum;
+
+    if (
+        scene.mode !== SceneMode.SCENE2D ||
+        !(frustum instanceof OrthographicOffCenterFrustum) ||
+        frustum.left === undefined ||
+        frustum.right === undefined
+    ) {
+        return 0;
+    }
+
+    const corner = scene.mapProjection.project(mapCorner, scratchPosition);
+
+    return ((2 * corner.x) / (frustum.right - frustum.left)) * scene.canvas.clientWidth;
+}
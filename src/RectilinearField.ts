@@ -0,0 +1,138 @@
+import Field, { ConstructorOptions, floorMod } from "./Field";
+
+interface RectilinearFieldOptions {
+    /**
+     * longitudes of the columns, ascending
+     */
+    lons: ArrayLike<number>;
+    /**
+     * latitudes of the rows, ascending or descending, e.g. Gaussian latitudes
+     */
+    lats: ArrayLike<number>;
+    us: ConstructorOptions["us"];
+    vs: ConstructorOptions["vs"];
+    interpolation?: ConstructorOptions["interpolation"];
+    height?: ConstructorOptions["height"];
+}
+
+/**
+ * Fractional index of the value in a monotonic array, -1 if outside
+ * @param values
+ * @param value
+ */
+function fractionalIndex(values: Float64Array, value: number) {
+    const last = values.length - 1;
+    const ascending = values[last] >= values[0];
+
+    const first = ascending ? values[0] : values[last];
+    const end = ascending ? values[last] : values[0];
+
+    if (value < first || value > end) {
+        return -1;
+    }
+
+    let low = 0;
+    let high = last;
+
+    // binary search for the interval [low, high] enclosing the value
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+
+        if (values[mid] <= value === ascending) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    const span = values[high] - values[low];
+
+    return span === 0 ? low : low + (value - values[low]) / span;
+}
+
+/**
+ * A field on a grid with explicit, possibly irregular, 1D longitudes and latitudes.
+ */
+class RectilinearField extends Field {
+    lons: Float64Array;
+    lats: Float64Array;
+
+    constructor(options: RectilinearFieldOptions) {
+        const cols = options.lons.length;
+        const rows = options.lats.length;
+
+        const firstLat = options.lats[0];
+        const lastLat = options.lats[rows - 1];
+
+        const xmin = options.lons[0];
+        const xmax = options.lons[cols - 1];
+
+        super({
+            xmin: xmin,
+            xmax: xmax,
+            ymin: Math.min(firstLat, lastLat),
+            ymax: Math.max(firstLat, lastLat),
+            deltaX: (xmax - xmin) / (cols - 1),
+            deltaY: Math.abs(lastLat - firstLat) / (rows - 1),
+            cols: cols,
+            rows: rows,
+            us: options.us,
+            vs: options.vs,
+            interpolation: options.interpolation,
+            height: options.height
+        });
+
+        this.lons = Float64Array.from(options.lons);
+        this.lats = Float64Array.from(options.lats);
+    }
+
+    contains(lon: number, lat: number) {
+        if (lon > 180 || lon < -180) {
+            throw new Error(`invalid longitude: ${lon}`);
+        }
+
+        if (lat > 90 || lat < -90) {
+            throw new Error(`invalid latitude: ${lat}`);
+        }
+
+        return this.columnIndex(lon) !== -1 && fractionalIndex(this.lats, lat) !== -1;
+    }
+
+    /**
+     * Fractional column of the longitude. For global grids, the gap between
+     * the last and the first column maps to [cols - 1, cols).
+     * @param lon
+     */
+    columnIndex(lon: number) {
+        const lons = this.lons;
+        const last = lons.length - 1;
+        const x = lons[0] + floorMod(lon - lons[0], 360);
+
+        if (x <= lons[last]) {
+            return fractionalIndex(lons, x);
+        }
+
+        if (this.isContinuous) {
+            return last + (x - lons[last]) / (lons[0] + 360 - lons[last]);
+        }
+
+        return -1;
+    }
+
+    decimalIndexesInto(lon: number, lat: number, out: Float64Array) {
+        out[0] = this.columnIndex(lon);
+        out[1] = fractionalIndex(this.lats, lat);
+    }
+
+    longitudeAtX(i: number) {
+        const lon = this.lons[this.clampColumnIndex(i)];
+
+        return lon > 180 ? lon - 360 : lon;
+    }
+
+    latitudeAtY(j: number) {
+        return this.lats[this.clampRowIndex(j)];
+    }
+}
+
+export default RectilinearField;
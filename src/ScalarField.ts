@@ -0,0 +1,52 @@
+import Field, { ConstructorOptions } from "./Field";
+
+export interface ScalarFieldOptions extends Omit<ConstructorOptions, "us" | "vs"> {
+    values: ArrayLike<number | null>;
+}
+
+/**
+ * A scalar variable on a regular grid, e.g. temperature, used to color the particles.
+ * The values are kept in the u plane of the field.
+ */
+class ScalarField extends Field {
+    private _value = new Float64Array(3);
+
+    constructor(options: ScalarFieldOptions) {
+        super({
+            ...options,
+            us: options.values,
+            vs: new Float32Array(options.values.length),
+            // the direction interpolation has no meaning for a scalar
+            interpolation: options.interpolation === "direction" ? "bilinear" : options.interpolation
+        });
+    }
+
+    /**
+     * min and max of the values
+     */
+    calculateRange(): [number, number] {
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.NEGATIVE_INFINITY;
+
+        for (let k = 0; k < this.mask.length; k++) {
+            if (this.mask[k] === 1) {
+                min = Math.min(this.us[k], min);
+                max = Math.max(this.us[k], max);
+            }
+        }
+
+        return [min, max];
+    }
+
+    /**
+     * Interpolated value at lon-lat coordinates
+     * @param lon
+     * @param lat
+     * @returns null outside the grid or where values are missing
+     */
+    scalarAt(lon: number, lat: number) {
+        return this.sample(lon, lat, this._value) ? this._value[0] : null;
+    }
+}
+
+export default ScalarField;
@@ -0,0 +1,47 @@
+/**
+ * Screen segments grouped by color bucket, so that each color is stroked once per frame
+ */
+class SegmentBatch {
+    // x0, y0, x1, y1 of the segments of each bucket
+    private _buckets: number[][] = [];
+
+    add(bucket: number, x0: number, y0: number, x1: number, y1: number) {
+        let coordinates = this._buckets[bucket];
+
+        if (!coordinates) {
+            coordinates = [];
+            this._buckets[bucket] = coordinates;
+        }
+
+        coordinates.push(x0, y0, x1, y1);
+    }
+
+    /**
+     * Stroke and clear the segments
+     * @param ctx
+     * @param colors stroke style of each bucket
+     */
+    stroke(ctx: CanvasRenderingContext2D, colors: string[]) {
+        for (let bucket = 0; bucket < this._buckets.length; bucket++) {
+            const coordinates = this._buckets[bucket];
+
+            if (!coordinates || coordinates.length === 0) {
+                continue;
+            }
+
+            ctx.beginPath();
+
+            for (let k = 0; k < coordinates.length; k += 4) {
+                ctx.moveTo(coordinates[k], coordinates[k + 1]);
+                ctx.lineTo(coordinates[k + 2], coordinates[k + 3]);
+            }
+
+            ctx.strokeStyle = colors[bucket];
+            ctx.stroke();
+
+            coordinates.length = 0;
+        }
+    }
+}
+
+export default SegmentBatch;
@@ -0,0 +1,390 @@
+import { Cartesian3, Color, Material, PolylineCollection } from "cesium";
+import Field, { floorMod } from "./Field";
+import FieldSeries from "./FieldSeries";
+import VolumeField from "./VolumeField";
+import ColorScale, { ColorScaleOption, ColorSpace } from "./ColorScale";
+import { IntegratorMethod, Velocity, integrate, toDegrees, wrapLongitude } from "./Integrator";
+
+export interface StreamlineOptions {
+    // distance between streamlines, in degrees of latitude, 2 by default
+    separation?: number;
+    // streamlines stop closer than testRatio * separation to another one, 0.5 by default
+    testRatio?: number;
+    // integration step in degrees of latitude, separation / 5 by default
+    step?: number;
+    // maximum length of a streamline in degrees of latitude, 90 by default
+    maxLength?: number;
+    // "rk4" by default
+    integrator?: IntegratorMethod;
+}
+
+export interface Streamline {
+    /**
+     * lon, lat of the points. Longitudes are continuous along a line,
+     * so they may go past ±180 where it crosses the antimeridian.
+     */
+    coordinates: [number, number][];
+    // speed at each point
+    speeds: number[];
+}
+
+// streamlines are stopped short of the poles, where the longitude metric degenerates
+const maxLatitude = 85;
+
+/**
+ * Squared distance in degrees of latitude, the longitude difference shrunk by cos(latitude)
+ */
+function distanceSquared(lon0: number, lat0: number, lon1: number, lat1: number) {
+    const dx = (floorMod(lon1 - lon0 + 180, 360) - 180) * Math.cos((((lat0 + lat1) / 2) * Math.PI) / 180);
+    const dy = lat1 - lat0;
+
+    return dx * dx + dy * dy;
+}
+
+/**
+ * Points of the finished streamlines, bucketed on a lon/lat grid for distance queries
+ */
+class OccupancyGrid {
+    private _cellSize: number;
+    private _cols: number;
+    private _rows: number;
+    private _cells = new Map<number, number[]>();
+
+    constructor(cellSize: number) {
+        this._cellSize = cellSize;
+        this._cols = Math.ceil(360 / cellSize);
+        this._rows = Math.ceil(180 / cellSize);
+    }
+
+    private _column(lon: number) {
+        return Math.min(this._cols - 1, Math.floor((wrapLongitude(lon) + 180) / this._cellSize));
+    }
+
+    private _row(lat: number) {
+        return Math.max(0, Math.min(this._rows - 1, Math.floor((lat + 90) / this._cellSize)));
+    }
+
+    add(lon: number, lat: number) {
+        const key = this._row(lat) * this._cols + this._column(lon);
+        let points = this._cells.get(key);
+
+        if (!points) {
+            points = [];
+            this._cells.set(key, points);
+        }
+
+        points.push(lon, lat);
+    }
+
+    /**
+     * Whether no point is closer than distance
+     */
+    isFree(lon: number, lat: number, distance: number) {
+        const d2 = distance * distance;
+        const row0 = this._row(lat - distance);
+        const row1 = this._row(lat + distance);
+        const cosLatitude = Math.max(0.05, Math.cos(((Math.abs(lat) + distance) * Math.PI) / 180));
+        const span = Math.min(Math.ceil(distance / cosLatitude / this._cellSize), this._cols >> 1);
+        const column = this._column(lon);
+
+        for (let row = row0; row <= row1; row++) {
+            for (let c = column - span; c <= column + span; c++) {
+                const points = this._cells.get(row * this._cols + floorMod(c, this._cols));
+
+                if (!points) {
+                    continue;
+                }
+
+                for (let k = 0; k < points.length; k += 2) {
+                    if (distanceSquared(lon, lat, points[k], points[k + 1]) < d2) {
+                        return false;
+                    }
+                }
+            }
+        }
+
+        return true;
+    }
+}
+
+/**
+ * Evenly spaced streamlines (Jobard & Lefer, 1997).
+ * New streamlines start at separation from existing ones and stop when they come closer than
+ * testRatio * separation to another one. The field is sampled with its own interpolation,
+ * so streamlines follow the same paths as the particles.
+ * @param field a field, a series at its current time, or a volume at the height of its slice
+ * @param options
+ */
+export function computeStreamlines(field: Field | FieldSeries | VolumeField, options: StreamlineOptions = {}) {
+    const separation = options.separation ?? 2;
+    const test = separation * (options.testRatio ?? 0.5);
+    const step = options.step ?? separation / 5;
+    const maxLength = options.maxLength ?? 90;
+    const integrator = options.integrator ?? "rk4";
+
+    const grid = new OccupancyGrid(separation);
+    const lines: Streamline[] = [];
+    const sample = new Float64Array(3);
+    const target = new Float64Array(2);
+
+    // own points closer than this along the line are not counted as a loop
+    const skipped = Math.ceil(test / step) + 2;
+
+    const speedAt = (lon: number, lat: number) => {
+        if (lat > maxLatitude || lat < -maxLatitude) {
+            return -1;
+        }
+
+        return field.sample(wrapLongitude(lon), lat, sample) ? sample[2] : -1;
+    };
+
+    const trace = (lon: number, lat: number, direction: number, own: [number, number][], budget: number) => {
+        const coordinates: [number, number][] = [];
+        const speeds: number[] = [];
+
+        const velocity: Velocity = (x, y, out) => {
+            if (!field.sample(x, y, sample) || sample[2] === 0) {
+                return false;
+            }
+
+            toDegrees((direction * sample[0]) / sample[2], (direction * sample[1]) / sample[2], y, step, out);
+
+            return true;
+        };
+
+        let x = lon;
+        let y = lat;
+
+        for (let length = 0; length < budget; length += step) {
+            if (!integrate(integrator, wrapLongitude(x), y, velocity, target)) {
+                break;
+            }
+
+            const nextX = x + target[0] - wrapLongitude(x);
+            const nextY = target[1];
+            const speed = speedAt(nextX, nextY);
+
+            if (speed < 0 || !grid.isFree(nextX, nextY, test)) {
+                break;
+            }
+
+            // stop before closing a loop on itself
+            let loop = false;
+
+            for (let k = 0; k < own.length - skipped && !loop; k++) {
+                loop = distanceSquared(nextX, nextY, own[k][0], own[k][1]) < test * test;
+            }
+
+            if (loop) {
+                break;
+            }
+
+            coordinates.push([nextX, nextY]);
+            speeds.push(speed);
+            own.push([nextX, nextY]);
+
+            x = nextX;
+            y = nextY;
+        }
+
+        return { coordinates, speeds };
+    };
+
+    const tryStreamline = (lon: number, lat: number) => {
+        const speed = speedAt(lon, lat);
+
+        if (speed <= 0 || !grid.isFree(lon, lat, separation)) {
+            return;
+        }
+
+        const own: [number, number][] = [[lon, lat]];
+        const forward = trace(lon, lat, 1, own, maxLength);
+        // the backward half starts near the seed, so the loop check covers the forward half only
+        const backwardOwn = own.slice().reverse();
+        const backward = trace(lon, lat, -1, backwardOwn, maxLength - forward.coordinates.length * step);
+
+        const coordinates = backward.coordinates.reverse().concat([[lon, lat]], forward.coordinates);
+        const speeds = backward.speeds.reverse().concat([speed], forward.speeds);
+
+        if (coordinates.length < 3) {
+            return;
+        }
+
+        // keep the longitudes continuous from the first point
+        const shift = coordinates[0][0] - wrapLongitude(coordinates[0][0]);
+
+        for (let k = 0; k < coordinates.length; k++) {
+            coordinates[k][0] -= shift;
+            grid.add(coordinates[k][0], coordinates[k][1]);
+        }
+
+        lines.push({ coordinates, speeds });
+    };
+
+    const seedFrom = (line: Streamline) => {
+        const points = line.coordinates;
+
+        for (let k = 0; k < points.length - 1; k++) {
+            const lon = points[k][0];
+            const lat = points[k][1];
+            const cosLatitude = Math.max(0.05, Math.cos((lat * Math.PI) / 180));
+
+            // unit normal of the line in the local metric
+            const tx = (points[k + 1][0] - lon) * cosLatitude;
+            const ty = points[k + 1][1] - lat;
+            const length = Math.sqrt(tx * tx + ty * ty);
+
+            if (length === 0) {
+                continue;
+            }
+
+            const nx = -ty / length;
+            const ny = tx / length;
+
+            for (const side of [1, -1]) {
+                const seedLat = lat + side * ny * separation;
+
+                if (seedLat > maxLatitude || seedLat < -maxLatitude) {
+                    continue;
+                }
+
+                tryStreamline(wrapLongitude(lon + (side * nx * separation) / cosLatitude), seedLat);
+            }
+        }
+    };
+
+    // seeds on a lattice over the extent, so that disconnected areas get streamlines too
+    const base = field instanceof FieldSeries || field instanceof VolumeField ? field.field : field;
+    const extent = base.extent();
+    const span = base.longitudeSpan();
+    const ymin = Math.max(-maxLatitude, Math.min(extent[1], extent[3]));
+    const ymax = Math.min(maxLatitude, Math.max(extent[1], extent[3]));
+
+    for (let lat = ymax - separation / 2; lat >= ymin; lat -= separation) {
+        for (let offset = separation / 2; offset <= span; offset += separation) {
+            const before = lines.length;
+
+            tryStreamline(wrapLongitude(extent[0] + offset), lat);
+
+            // grow from every new streamline before going on with the lattice
+            for (let k = before; k < lines.length; k++) {
+                seedFrom(lines[k]);
+            }
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Streamlines as a GeoJSON FeatureCollection of LineStrings,
+ * with the speed at each point and the mean and max speed of the line
+ * @param lines
+ */
+export function streamlinesToGeoJSON(lines: Streamline[]) {
+    return {
+        type: "FeatureCollection",
+        features: lines.map((line) => {
+            let sum = 0;
+            let max = 0;
+
+            for (let k = 0; k < line.speeds.length; k++) {
+                sum += line.speeds[k];
+                max = Math.max(max, line.speeds[k]);
+            }
+
+            return {
+                type: "Feature",
+                geometry: {
+                    type: "LineString",
+                    coordinates: line.coordinates.map((point) => [point[0], point[1]])
+                },
+                properties: {
+                    speeds: line.speeds.slice(),
+                    meanSpeed: sum / line.speeds.length,
+                    maxSpeed: max
+                }
+            };
+        })
+    };
+}
+
+export interface StreamlinePolylineOptions {
+    // a color scale, e.g. CesiumParticles.colorScale, or an option to build one, white by default
+    colorScale?: ColorScale | ColorScaleOption;
+    colorSpace?: ColorSpace;
+    // speeds at the ends of the color scale, the stop values or the range of the lines by default
+    range?: [number, number];
+    width?: number;
+}
+
+/**
+ * Streamlines as a Cesium PolylineCollection, colored by speed.
+ * Lines are split where their color changes, the pieces sharing their end points.
+ * @param lines
+ * @param options
+ */
+export function streamlinesToPolylines(lines: Streamline[], options: StreamlinePolylineOptions = {}) {
+    const colorScale =
+        options.colorScale instanceof ColorScale
+            ? options.colorScale
+            : new ColorScale(options.colorScale ?? "#fff", { colorSpace: options.colorSpace });
+
+    let range = options.range ?? colorScale.domain;
+
+    if (!range) {
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.NEGATIVE_INFINITY;
+
+        for (let n = 0; n < lines.length; n++) {
+            for (let k = 0; k < lines[n].speeds.length; k++) {
+                min = Math.min(min, lines[n].speeds[k]);
+                max = Math.max(max, lines[n].speeds[k]);
+            }
+        }
+
+        range = [min, max];
+    }
+
+    const materials = colorScale.colors.map((color) =>
+        Material.fromType("Color", { color: Color.fromCssColorString(color) })
+    );
+
+    const collection = new PolylineCollection();
+    const width = options.width ?? 2;
+
+    for (let n = 0; n < lines.length; n++) {
+        const line = lines[n];
+        let start = 0;
+
+        for (let k = 1; k <= line.coordinates.length; k++) {
+            const bucket = colorScale.bucketFor(line.speeds[start], range);
+            const end = k === line.coordinates.length || colorScale.bucketFor(line.speeds[k], range) !== bucket;
+
+            if (!end) {
+                continue;
+            }
+
+            // include the first point of the next piece so the pieces join
+            const last = Math.min(k, line.coordinates.length - 1);
+
+            if (last > start) {
+                const degrees: number[] = [];
+
+                for (let p = start; p <= last; p++) {
+                    degrees.push(line.coordinates[p][0], line.coordinates[p][1]);
+                }
+
+                collection.add({
+                    positions: Cartesian3.fromDegreesArray(degrees),
+                    width: width,
+                    material: materials[bucket]
+                });
+            }
+
+            start = k;
+        }
+    }
+
+    return collection;
+}
@@ -0,0 +1,53 @@
+import { Cartographic, Globe } from "cesium";
+import Field from "./Field";
+
+const scratchCartographic = new Cartographic();
+
+/**
+ * Terrain heights of the cells of a field grid, sampled from the loaded terrain tiles
+ * the first time a position in the cell is asked for.
+ * Cells are sampled again after clear, e.g. once more detailed tiles are loaded.
+ */
+class TerrainCache {
+    private _heights = new Float32Array(0);
+
+    /**
+     * Terrain height at lon-lat coordinates
+     * @param globe
+     * @param grid field whose cells the heights are cached for
+     * @param lon
+     * @param lat
+     * @returns 0 where no terrain tile is loaded yet
+     */
+    heightAt(globe: Globe, grid: Field, lon: number, lat: number) {
+        const count = grid.cols * grid.rows;
+
+        if (this._heights.length !== count) {
+            this._heights = new Float32Array(count).fill(NaN);
+        }
+
+        const offset = grid.offsetAt(lon, lat);
+
+        if (offset !== -1 && !isNaN(this._heights[offset])) {
+            return this._heights[offset];
+        }
+
+        const height = globe.getHeight(Cartographic.fromDegrees(lon, lat, 0, scratchCartographic));
+
+        if (height === undefined) {
+            return 0;
+        }
+
+        if (offset !== -1) {
+            this._heights[offset] = height;
+        }
+
+        return height;
+    }
+
+    clear() {
+        this._heights.fill(NaN);
+    }
+}
+
+export default TerrainCache;
@@ -0,0 +1,52 @@
+export type SpeedUnit = "m/s" | "knots" | "km/h" | "beaufort";
+
+// lower speed limit in m/s of the Beaufort forces 1 to 12
+export const beaufortLimits = [0.5, 1.6, 3.4, 5.5, 8, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7];
+
+export const metersPerSecondIn: Record<Exclude<SpeedUnit, "beaufort">, number> = {
+    "m/s": 1,
+    knots: 1.943844,
+    "km/h": 3.6
+};
+
+/**
+ * Beaufort force of a wind speed
+ * @param speed in m/s
+ */
+export function beaufortForce(speed: number) {
+    let force = 0;
+
+    while (force < beaufortLimits.length && speed >= beaufortLimits[force]) {
+        force++;
+    }
+
+    return force;
+}
+
+/**
+ * Speed as text in a unit, e.g. "12.3 knots" or "Beaufort 6"
+ * @param speed in m/s
+ * @param unit
+ */
+export function formatSpeed(speed: number, unit: SpeedUnit) {
+    if (unit === "beaufort") {
+        return `Beaufort ${beaufortForce(speed)}`;
+    }
+
+    return `${(speed * metersPerSecondIn[unit]).toFixed(1)} ${unit}`;
+}
+
+/**
+ * Height of a pressure level in the International Standard Atmosphere,
+ * up to the isothermal layer above the tropopause (20 km, 54.7 hPa)
+ * @param pressure in hPa
+ * @returns height in meters
+ */
+export function pressureToHeight(pressure: number) {
+    // tropopause at 11 km
+    if (pressure >= 226.321) {
+        return 44330.8 * (1 - Math.pow(pressure / 1013.25, 0.190263));
+    }
+
+    return 11000 + 6341.62 * Math.log(226.321 / pressure);
+}
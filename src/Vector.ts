@@ -26,7 +26,18 @@ class Vector {
      * @returns {Number}
      */
     directionTo() {
-        var verticalAngle = Math.atan2(this.u, this.v);
+        return Vector.directionTo(this.u, this.v);
+    }
+
+    /**
+     * Angle in degrees (0 to 360º) --> Towards, of u/v components
+     * N is 0º and E is 90º
+     * @param u
+     * @param v
+     * @returns {Number}
+     */
+    static directionTo(u: number, v: number) {
+        var verticalAngle = Math.atan2(u, v);
         var inDegrees = verticalAngle * (180.0 / Math.PI);
         if (inDegrees < 0) {
             inDegrees += 360.0;
@@ -0,0 +1,229 @@
+import Vector from "./Vector";
+import Field, { SeedOptions } from "./Field";
+import ScalarField from "./ScalarField";
+import Particle from "./Particle";
+import { pressureToHeight } from "./Units";
+
+export interface VolumeLevel {
+    field: Field;
+    // height of the level in meters, the height of the field if undefined
+    height?: number;
+    // pressure of the level in hPa, converted with the standard atmosphere if height is undefined
+    pressure?: number;
+    // upward wind in m/s on the grid of the field, no vertical motion if undefined
+    w?: ScalarField;
+}
+
+/**
+ * Wind on stacked levels of the same grid, with an optional vertical component.
+ * Values are interpolated horizontally on each level, bilinearly by default, then linearly in height.
+ * sample and interpolatedValueAt read the horizontal slice at height, for the 2D consumers of a field.
+ */
+class VolumeField {
+    // levels from the lowest up
+    levels: Field[];
+    heights: number[];
+    ws: (ScalarField | undefined)[];
+    range: [number, number];
+    // height of the slice sampled in 2D, the lowest level by default
+    height: number;
+
+    private _below = new Float64Array(3);
+    private _above = new Float64Array(3);
+    private _w = new Float64Array(3);
+    private _sample = new Float64Array(4);
+
+    constructor(levels: VolumeLevel[]) {
+        if (levels.length === 0) {
+            throw new Error("at least one level is required");
+        }
+
+        const stacked = levels.map((level, k) => {
+            const height =
+                level.height ??
+                (level.pressure !== undefined ? pressureToHeight(level.pressure) : undefined) ??
+                level.field.height;
+
+            if (height === undefined) {
+                throw new Error(`level ${k} has no height, pressure or field height`);
+            }
+
+            return { field: level.field, height: height, w: level.w };
+        });
+
+        stacked.sort((a, b) => a.height - b.height);
+
+        this.levels = stacked.map((level) => level.field);
+        this.heights = stacked.map((level) => level.height);
+        this.ws = stacked.map((level) => level.w);
+        this.height = this.heights[0];
+        this.range = this.calculateRange();
+    }
+
+    get bottom() {
+        return this.heights[0];
+    }
+
+    get top() {
+        return this.heights[this.heights.length - 1];
+    }
+
+    /**
+     * the lowest level, whose grid is shared by all levels
+     */
+    get field() {
+        return this.levels[0];
+    }
+
+    /**
+     * union of the ranges of all levels
+     */
+    calculateRange(): [number, number] {
+        let min = Number.POSITIVE_INFINITY;
+        let max = Number.NEGATIVE_INFINITY;
+
+        for (let k = 0; k < this.levels.length; k++) {
+            const range = this.levels[k].range;
+
+            min = Math.min(min, range[0]);
+            max = Math.max(max, range[1]);
+        }
+
+        return [min, max];
+    }
+
+    /**
+     * Interpolate in 3D without allocating.
+     * Heights outside the levels are clamped, a level missing the position is replaced by the other one.
+     * @param lon
+     * @param lat
+     * @param z height in meters
+     * @param out receives u, v, the horizontal speed and w
+     */
+    sample3(lon: number, lat: number, z: number, out: Float64Array) {
+        const heights = this.heights;
+        const last = heights.length - 1;
+
+        // level below the height and the fraction towards the next one
+        let k = 0;
+
+        while (k < last - 1 && heights[k + 1] <= z) {
+            k++;
+        }
+
+        const upper = Math.min(k + 1, last);
+        const span = heights[upper] - heights[k];
+        const t = span > 0 ? Math.max(0, Math.min(1, (z - heights[k]) / span)) : 0;
+
+        const below = this._below;
+        const above = this._above;
+        const hasBelow = this.levels[k].sample(lon, lat, below);
+        const hasAbove = t > 0 && this.levels[upper].sample(lon, lat, above);
+
+        if (!hasBelow && !hasAbove) {
+            return false;
+        }
+
+        const wBelow = this.wAt(k, lon, lat);
+        const wAbove = t > 0 ? this.wAt(upper, lon, lat) : 0;
+
+        if (!hasAbove) {
+            out[0] = below[0];
+            out[1] = below[1];
+            out[3] = wBelow;
+        } else if (!hasBelow) {
+            out[0] = above[0];
+            out[1] = above[1];
+            out[3] = wAbove;
+        } else {
+            out[0] = below[0] + (above[0] - below[0]) * t;
+            out[1] = below[1] + (above[1] - below[1]) * t;
+            out[3] = wBelow + (wAbove - wBelow) * t;
+        }
+
+        out[2] = Math.sqrt(out[0] * out[0] + out[1] * out[1]);
+
+        return true;
+    }
+
+    /**
+     * Upward wind of a level, 0 where it is unknown
+     */
+    wAt(level: number, lon: number, lat: number) {
+        const w = this.ws[level];
+
+        return w !== undefined && w.sample(lon, lat, this._w) ? this._w[0] : 0;
+    }
+
+    /**
+     * Interpolate at the height of the slice
+     * @param lon
+     * @param lat
+     * @param out receives u, v and the speed
+     */
+    sample(lon: number, lat: number, out: Float64Array) {
+        const sample = this._sample;
+
+        if (!this.sample3(lon, lat, this.height, sample)) {
+            return false;
+        }
+
+        out[0] = sample[0];
+        out[1] = sample[1];
+        out[2] = sample[2];
+
+        return true;
+    }
+
+    interpolatedValueAt(lon: number, lat: number) {
+        if (!this.sample(lon, lat, this._sample)) {
+            return null;
+        }
+
+        return new Vector(this._sample[0], this._sample[1]);
+    }
+
+    valueAt(lon: number, lat: number) {
+        return this.field.valueAt(lon, lat);
+    }
+
+    hasValueAt(lon: number, lat: number) {
+        return this.field.hasValueAt(lon, lat);
+    }
+
+    contains(lon: number, lat: number) {
+        return this.field.contains(lon, lat);
+    }
+
+    extent() {
+        return this.field.extent();
+    }
+
+    /**
+     * Random position on the lowest level, at a random height between the levels
+     */
+    assignRandomPosition(
+        particle: Particle,
+        width: number,
+        height: number,
+        unproject: (p: [number, number]) => [number, number] | null,
+        options?: SeedOptions
+    ) {
+        if (!this.field.assignRandomPosition(particle, width, height, unproject, options)) {
+            return false;
+        }
+
+        particle.z = this.bottom + Math.random() * (this.top - this.bottom);
+
+        return true;
+    }
+
+    release() {
+        for (let k = 0; k < this.levels.length; k++) {
+            this.levels[k].release();
+            this.ws[k]?.release();
+        }
+    }
+}
+
+export default VolumeField;
@@ -0,0 +1,406 @@
+import { EventHelper, JulianDate, Matrix4, Scene, destroyObject } from "cesium";
+import Field from "./Field";
+import FieldSeries from "./FieldSeries";
+import VolumeField from "./VolumeField";
+import ColorScale, { ColorScaleOption } from "./ColorScale";
+import { isCoordinateVisible, projectCoordinate, unprojectPixel } from "./Projection";
+import { metersPerSecondIn } from "./Units";
+import { metersPerDegree } from "./Integrator";
+
+export interface WindBarbOptions {
+    // "barb": WMO wind barbs (default), "arrow": arrows pointing downwind
+    symbol?: "barb" | "arrow";
+    // "screen": symbols every spacing pixels (default), "geographic": on a lon/lat lattice snapped to round degrees
+    lattice?: "screen" | "geographic";
+    // pixels between symbols
+    spacing?: number;
+    // length of the staff or arrow in pixels
+    size?: number;
+    lineWidth?: number;
+    // a CSS color, or colors by speed as in the particle options
+    color?: ColorScaleOption;
+}
+
+// lattice steps of the geographic mode, in degrees
+const latticeSteps = [0.1, 0.25, 0.5, 1, 2, 2.5, 5, 10, 15, 20, 30];
+
+// upper bound of the symbols drawn per frame
+const maxSymbols = 5000;
+
+/**
+ * Static wind symbols sampled from a field, drawn on a canvas over the scene.
+ * Symbols are redrawn whenever the camera, the canvas size or the time of a field series changes.
+ */
+class WindBarbLayer {
+    field: Field | FieldSeries | VolumeField;
+    options: WindBarbOptions;
+
+    private _scene?: Scene;
+    private _canvas?: HTMLCanvasElement;
+    private _ctx?: CanvasRenderingContext2D;
+    private _colorScale: ColorScale;
+    private _eventHelper = new EventHelper();
+
+    // what the symbols were last drawn for
+    private _viewMatrix = new Matrix4();
+    private _seconds = 0;
+    private _width = 0;
+    private _height = 0;
+
+    constructor(field: Field | FieldSeries | VolumeField, options: WindBarbOptions = {}) {
+        this.field = field;
+        this.options = options;
+        this._colorScale = new ColorScale(options.color ?? "#fff");
+    }
+
+    get isAdded() {
+        return this._scene !== undefined;
+    }
+
+    /**
+     * the color scale built from the color option
+     */
+    get colorScale() {
+        return this._colorScale;
+    }
+
+    /**
+     * Change options at runtime, the symbols are redrawn on the next frame
+     * @param options
+     * @throws if a color is invalid, before anything changes
+     */
+    setOptions(options: Partial<WindBarbOptions>) {
+        const next = { ...this.options, ...options };
+
+        if (next.color !== this.options.color) {
+            this._colorScale = new ColorScale(next.color ?? "#fff");
+        }
+
+        this.options = next;
+        this._width = -1;
+        this._scene?.requestRender();
+    }
+
+    addToCesiumScene(scene: Scene) {
+        if (this.isAdded) {
+            throw new Error("wind barbs are already added to a scene!");
+        }
+
+        this._scene = scene;
+
+        const canvas = document.createElement("canvas");
+        canvas.style.cssText = "position:absolute; left:0; top:0;user-select:none;pointer-events: none;";
+        this._ctx = canvas.getContext("2d")!;
+        this._canvas = canvas;
+
+        scene.canvas.parentNode!.appendChild(canvas);
+
+        this._eventHelper.add(scene.preUpdate, (scene: Scene, time: JulianDate) => {
+            if (this.field instanceof FieldSeries) {
+                this.field.setTime(time);
+            }
+        });
+
+        this._eventHelper.add(scene.postRender, () => this._onPostRender());
+
+        this._width = -1;
+    }
+
+    removeFromScene() {
+        if (!this.isAdded) {
+            return;
+        }
+
+        this._eventHelper.removeAll();
+        this._canvas?.parentNode?.removeChild(this._canvas);
+
+        this._canvas = undefined;
+        this._ctx = undefined;
+        this._scene = undefined;
+    }
+
+    _onPostRender() {
+        const scene = this._scene!;
+        const canvas = this._canvas!;
+        const sceneCanvas = scene.canvas;
+        // symbols are placed in CSS pixels, drawn at the resolution of the drawing buffer
+        const width = sceneCanvas.clientWidth;
+        const height = sceneCanvas.clientHeight;
+        const seconds = this.field instanceof FieldSeries ? this.field.seconds : 0;
+
+        if (
+            width === this._width &&
+            height === this._height &&
+            canvas.width === sceneCanvas.width &&
+            canvas.height === sceneCanvas.height &&
+            Matrix4.equals(scene.camera.viewMatrix, this._viewMatrix) &&
+            seconds === this._seconds
+        ) {
+            return;
+        }
+
+        this._width = width;
+        this._height = height;
+        Matrix4.clone(scene.camera.viewMatrix, this._viewMatrix);
+        this._seconds = seconds;
+
+        if (canvas.width !== sceneCanvas.width || canvas.height !== sceneCanvas.height) {
+            canvas.width = sceneCanvas.width;
+            canvas.height = sceneCanvas.height;
+        }
+
+        canvas.style.width = width + "px";
+        canvas.style.height = height + "px";
+
+        this._ctx!.setTransform(
+            width > 0 ? sceneCanvas.width / width : 1,
+            0,
+            0,
+            height > 0 ? sceneCanvas.height / height : 1,
+            0,
+            0
+        );
+
+        this.draw();
+    }
+
+    /**
+     * lon-lat positions of the symbols in the current view
+     */
+    lattice() {
+        const scene = this._scene!;
+        const spacing = this.options.spacing ?? 48;
+        const positions: [number, number][] = [];
+
+        if (this.options.lattice !== "geographic") {
+            for (let y = spacing / 2; y < this._height; y += spacing) {
+                for (let x = spacing / 2; x < this._width; x += spacing) {
+                    const coords = unprojectPixel(scene, [x, y]);
+
+                    if (coords !== null) {
+                        positions.push(coords);
+                    }
+                }
+            }
+
+            return positions;
+        }
+
+        const rectangle = scene.camera.computeViewRectangle();
+
+        if (!rectangle) {
+            return positions;
+        }
+
+        // about spacing pixels between symbols, the view spanning about the camera height
+        const height = scene.camera.positionCartographic.height;
+        const wanted = (height * spacing) / this._height / metersPerDegree;
+        const step = latticeSteps.find((candidate) => candidate >= wanted) ?? latticeSteps[latticeSteps.length - 1];
+
+        const west = (rectangle.west * 180) / Math.PI;
+        const south = (rectangle.south * 180) / Math.PI;
+        const north = (rectangle.north * 180) / Math.PI;
+        let east = (rectangle.east * 180) / Math.PI;
+
+        // the view crosses the dateline
+        if (east < west) {
+            east += 360;
+        }
+
+        for (let lat = Math.ceil(south / step) * step; lat <= north; lat += step) {
+            for (let lon = Math.ceil(west / step) * step; lon <= east; lon += step) {
+                positions.push([lon > 180 ? lon - 360 : lon, lat]);
+
+                if (positions.length >= maxSymbols) {
+                    return positions;
+                }
+            }
+        }
+
+        return positions;
+    }
+
+    draw() {
+        const scene = this._scene!;
+        const ctx = this._ctx!;
+        const field = this.field;
+        const size = this.options.size ?? 28;
+        const range = this._colorScale.domain ?? field.range;
+
+        ctx.clearRect(0, 0, this._width, this._height);
+        ctx.lineWidth = this.options.lineWidth ?? 1.5;
+        ctx.lineCap = "round";
+        ctx.lineJoin = "round";
+
+        const positions = this.lattice();
+
+        for (let k = 0; k < positions.length; k++) {
+            const lon = positions[k][0];
+            const lat = positions[k][1];
+
+            if (!isCoordinateVisible(scene, positions[k])) {
+                continue;
+            }
+
+            const vector = field.interpolatedValueAt(lon, lat);
+            const point = projectCoordinate(scene, positions[k]);
+
+            if (vector === null || point === null) {
+                continue;
+            }
+
+            // screen directions of north and east at the position
+            const delta = 0.01;
+            const north = projectCoordinate(scene, [lon, Math.min(90, lat + delta)]);
+            const east = projectCoordinate(scene, [lon + delta > 180 ? lon + delta - 360 : lon + delta, lat]);
+
+            if (north === null || east === null) {
+                continue;
+            }
+
+            const nx = north[0] - point[0];
+            const ny = north[1] - point[1];
+            const ex = east[0] - point[0];
+            const ey = east[1] - point[1];
+            const nLength = Math.sqrt(nx * nx + ny * ny) || 1;
+            const eLength = Math.sqrt(ex * ex + ey * ey) || 1;
+
+            // unit screen vector towards where the wind comes from
+            const from = (vector.directionFrom() * Math.PI) / 180;
+            let dx = (Math.sin(from) * ex) / eLength + (Math.cos(from) * nx) / nLength;
+            let dy = (Math.sin(from) * ey) / eLength + (Math.cos(from) * ny) / nLength;
+            const length = Math.sqrt(dx * dx + dy * dy) || 1;
+            dx /= length;
+            dy /= length;
+
+            const color = this._colorScale.colors[this._colorScale.bucketFor(vector.m, range)];
+            ctx.strokeStyle = color;
+            ctx.fillStyle = color;
+
+            if (this.options.symbol === "arrow") {
+                this.drawArrow(ctx, point[0], point[1], -dx, -dy, size);
+            } else {
+                this.drawBarb(ctx, point[0], point[1], dx, dy, vector.m * metersPerSecondIn.knots, size, lat < 0);
+            }
+        }
+    }
+
+    /**
+     * Arrow centered on (x, y) pointing downwind
+     */
+    drawArrow(ctx: CanvasRenderingContext2D, x: number, y: number, dx: number, dy: number, size: number) {
+        const half = size / 2;
+        const head = size / 4;
+        const tipX = x + dx * half;
+        const tipY = y + dy * half;
+
+        ctx.beginPath();
+        ctx.moveTo(x - dx * half, y - dy * half);
+        ctx.lineTo(tipX, tipY);
+        ctx.moveTo(tipX - dx * head - dy * head * 0.5, tipY - dy * head + dx * head * 0.5);
+        ctx.lineTo(tipX, tipY);
+        ctx.lineTo(tipX - dx * head + dy * head * 0.5, tipY - dy * head - dx * head * 0.5);
+        ctx.stroke();
+    }
+
+    /**
+     * WMO wind barb: the staff points to where the wind comes from,
+     * with pennants for 50 knots, full barbs for 10 and half barbs for 5,
+     * on the low pressure side (clockwise in the northern hemisphere).
+     * @param knots speed in knots
+     * @param southern draw the barbs on the other side, as in the southern hemisphere
+     */
+    drawBarb(
+        ctx: CanvasRenderingContext2D,
+        x: number,
+        y: number,
+        dx: number,
+        dy: number,
+        knots: number,
+        size: number,
+        southern: boolean
+    ) {
+        const rounded = Math.round(knots / 5) * 5;
+
+        if (rounded < 5) {
+            // calm
+            ctx.beginPath();
+            ctx.arc(x, y, size / 8, 0, 2 * Math.PI);
+            ctx.stroke();
+            return;
+        }
+
+        const pennants = Math.floor(rounded / 50);
+        const barbs = Math.floor((rounded % 50) / 10);
+        const halfBarb = rounded % 10 === 5;
+
+        // perpendicular of the staff, on the barb side
+        const side = southern ? -1 : 1;
+        const px = -dy * side;
+        const py = dx * side;
+
+        const barbLength = size * 0.4;
+        const gap = size * 0.15;
+
+        const endX = x + dx * size;
+        const endY = y + dy * size;
+
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(endX, endY);
+        ctx.stroke();
+
+        // distance of the next feather from the end of the staff
+        let offset = 0;
+
+        for (let k = 0; k < pennants; k++) {
+            const ax = endX - dx * offset;
+            const ay = endY - dy * offset;
+            const bx = endX - dx * (offset + gap);
+            const by = endY - dy * (offset + gap);
+
+            ctx.beginPath();
+            ctx.moveTo(ax, ay);
+            ctx.lineTo(ax + px * barbLength, ay + py * barbLength);
+            ctx.lineTo(bx, by);
+            ctx.closePath();
+            ctx.fill();
+
+            offset += gap * 1.2;
+        }
+
+        // a lone half barb is set back from the end, so it isn't read as a full barb
+        if (pennants === 0 && barbs === 0) {
+            offset = gap;
+        }
+
+        const feathers = barbs + (halfBarb ? 1 : 0);
+
+        for (let k = 0; k < feathers; k++) {
+            const full = k < barbs;
+            const length = full ? barbLength : barbLength / 2;
+            const ax = endX - dx * offset;
+            const ay = endY - dy * offset;
+
+            ctx.beginPath();
+            ctx.moveTo(ax, ay);
+            // slanted towards the end of the staff
+            ctx.lineTo(ax + (px + dx * 0.5) * length, ay + (py + dy * 0.5) * length);
+            ctx.stroke();
+
+            offset += gap;
+        }
+    }
+
+    isDestroyed() {
+        return false;
+    }
+
+    destroy() {
+        this.removeFromScene();
+
+        return destroyObject(this);
+    }
+}
+
+export default WindBarbLayer;
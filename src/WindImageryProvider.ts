@@ -0,0 +1,191 @@
+import {
+    Credit,
+    Event,
+    GeographicTilingScheme,
+    ImageryLayerFeatureInfo,
+    NeverTileDiscardPolicy,
+    Proxy,
+    Rectangle,
+    TileDiscardPolicy,
+    TilingScheme,
+    WebMercatorProjection,
+    WebMercatorTilingScheme
+} from "cesium";
+import Field, { floorMod } from "./Field";
+import FieldSeries from "./FieldSeries";
+import VolumeField from "./VolumeField";
+import ColorScale, { ColorScaleOption, ColorSpace, parseColor } from "./ColorScale";
+
+export interface WindImageryOptions {
+    // a color scale, e.g. CesiumParticles.colorScale, or an option to build one, the windy palette by default
+    colorScale?: ColorScale | ColorScaleOption;
+    colorSpace?: ColorSpace;
+    // speeds at the ends of the color scale, the stop values or the range of the field by default
+    range?: [number, number];
+    // alpha of the colors, 0.7 by default
+    opacity?: number;
+    // a GeographicTilingScheme (default) or a WebMercatorTilingScheme
+    tilingScheme?: TilingScheme;
+    tileWidth?: number;
+    tileHeight?: number;
+    maximumLevel?: number;
+    // attribution of the layer, "Wind speed heatmap" by default
+    credit?: Credit | string;
+}
+
+/**
+ * Wind speed heatmap as a Cesium imagery layer.
+ * Tiles are drawn on request from the interpolated speed of the field, where the field has no value
+ * they are transparent. Cesium keeps the tiles it loaded, for a field series they show the time they were drawn at.
+ */
+class WindImageryProvider {
+    field: Field | FieldSeries | VolumeField;
+
+    readonly tilingScheme: TilingScheme;
+    readonly rectangle: Rectangle;
+    readonly tileWidth: number;
+    readonly tileHeight: number;
+    readonly maximumLevel: number | undefined;
+    readonly minimumLevel = 0;
+    readonly errorEvent = new Event();
+    readonly credit: Credit;
+    readonly hasAlphaChannel = true;
+    // tiles are drawn locally, none is discarded and none is requested through a proxy
+    readonly tileDiscardPolicy: TileDiscardPolicy = new NeverTileDiscardPolicy();
+    readonly proxy: Proxy = { getURL: (resource: string) => resource };
+
+    private _colorScale: ColorScale;
+    private _range?: [number, number];
+    // rgba bytes of the colors, opacity applied
+    private _colors: Uint8ClampedArray;
+    private _sample = new Float64Array(3);
+
+    constructor(field: Field | FieldSeries | VolumeField, options: WindImageryOptions = {}) {
+        this.field = field;
+
+        this.tilingScheme = options.tilingScheme ?? new GeographicTilingScheme();
+        this.rectangle = this.tilingScheme.rectangle;
+        this.tileWidth = options.tileWidth ?? 256;
+        this.tileHeight = options.tileHeight ?? 256;
+        this.maximumLevel = options.maximumLevel;
+        this.credit =
+            options.credit instanceof Credit ? options.credit : new Credit(options.credit ?? "Wind speed heatmap");
+
+        this._colorScale =
+            options.colorScale instanceof ColorScale
+                ? options.colorScale
+                : new ColorScale(options.colorScale ?? "windy", { colorSpace: options.colorSpace });
+        this._range = options.range;
+
+        const opacity = options.opacity ?? 0.7;
+        const colors = this._colorScale.colors;
+        this._colors = new Uint8ClampedArray(colors.length * 4);
+
+        for (let k = 0; k < colors.length; k++) {
+            const rgba = parseColor(colors[k]);
+
+            this._colors[k * 4] = rgba[0];
+            this._colors[k * 4 + 1] = rgba[1];
+            this._colors[k * 4 + 2] = rgba[2];
+            this._colors[k * 4 + 3] = Math.round(rgba[3] * opacity * 255);
+        }
+    }
+
+    getTileCredits(x: number, y: number, level: number): Credit[] {
+        return [];
+    }
+
+    requestImage(x: number, y: number, level: number) {
+        return Promise.resolve(this.drawTile(x, y, level));
+    }
+
+    pickFeatures(
+        x: number,
+        y: number,
+        level: number,
+        longitude: number,
+        latitude: number
+    ): Promise<ImageryLayerFeatureInfo[]> | undefined {
+        return undefined;
+    }
+
+    /**
+     * Latitudes in degrees of the pixel rows of a tile, from north to south
+     */
+    tileLatitudes(x: number, y: number, level: number) {
+        const height = this.tileHeight;
+        const latitudes = new Float64Array(height);
+
+        if (this.tilingScheme instanceof WebMercatorTilingScheme) {
+            // rows are evenly spaced in mercator meters
+            const native = this.tilingScheme.tileXYToNativeRectangle(x, y, level);
+            const radius = this.tilingScheme.ellipsoid.maximumRadius;
+
+            for (let row = 0; row < height; row++) {
+                const northing = native.north - ((row + 0.5) / height) * (native.north - native.south);
+
+                latitudes[row] =
+                    (WebMercatorProjection.mercatorAngleToGeodeticLatitude(northing / radius) * 180) / Math.PI;
+            }
+
+            return latitudes;
+        }
+
+        const rectangle = this.tilingScheme.tileXYToRectangle(x, y, level);
+
+        for (let row = 0; row < height; row++) {
+            latitudes[row] = ((rectangle.north - ((row + 0.5) / height) * rectangle.height) * 180) / Math.PI;
+        }
+
+        return latitudes;
+    }
+
+    drawTile(x: number, y: number, level: number) {
+        const width = this.tileWidth;
+        const height = this.tileHeight;
+        const field = this.field;
+        const sample = this._sample;
+        const colors = this._colors;
+        const range = this._range ?? this._colorScale.domain ?? field.range;
+
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+
+        const ctx = canvas.getContext("2d")!;
+        const image = ctx.createImageData(width, height);
+        const data = image.data;
+
+        const rectangle = this.tilingScheme.tileXYToRectangle(x, y, level);
+        const west = (rectangle.west * 180) / Math.PI;
+        const columnWidth = (rectangle.width * 180) / Math.PI / width;
+        const latitudes = this.tileLatitudes(x, y, level);
+
+        for (let row = 0; row < height; row++) {
+            const lat = latitudes[row];
+
+            for (let column = 0; column < width; column++) {
+                const lon = floorMod(west + (column + 0.5) * columnWidth + 180, 360) - 180;
+
+                // missing values stay transparent
+                if (!field.sample(lon, lat, sample)) {
+                    continue;
+                }
+
+                const color = this._colorScale.bucketFor(sample[2], range) * 4;
+                const pixel = (row * width + column) * 4;
+
+                data[pixel] = colors[color];
+                data[pixel + 1] = colors[color + 1];
+                data[pixel + 2] = colors[color + 2];
+                data[pixel + 3] = colors[color + 3];
+            }
+        }
+
+        ctx.putImageData(image, 0, 0);
+
+        return canvas;
+    }
+}
+
+export default WindImageryProvider;
@@ -0,0 +1,94 @@
+import { Cartesian2, ScreenSpaceEventHandler, ScreenSpaceEventType, destroyObject } from "cesium";
+import CesiumParticles from "./CesiumParticles";
+import { LegendHost } from "./Legend";
+import { SpeedUnit, formatSpeed } from "./Units";
+
+export interface WindTooltipOptions {
+    // unit of the speed, "m/s" by default
+    unit?: SpeedUnit;
+}
+
+/**
+ * Tooltip following the mouse over the globe with the wind under it
+ */
+class WindTooltip {
+    element: HTMLDivElement;
+    options: WindTooltipOptions;
+
+    private _particles: CesiumParticles;
+    private _handler?: ScreenSpaceEventHandler;
+
+    constructor(particles: CesiumParticles, options: WindTooltipOptions = {}) {
+        this._particles = particles;
+        this.options = options;
+
+        this.element = document.createElement("div");
+        this.element.className = "wind-tooltip";
+        this.element.style.cssText =
+            "position: absolute; display: none; padding: 4px 6px; border-radius: 4px;" +
+            "background: rgba(38, 38, 38, 0.75); color: #fff; font: 11px sans-serif;" +
+            "white-space: pre; pointer-events: none;";
+    }
+
+    /**
+     * Add the tooltip to the container of a viewer and follow the mouse on its canvas
+     * @param host
+     */
+    mount(host: LegendHost) {
+        this.unmount();
+
+        host.container.appendChild(this.element);
+
+        this._handler = new ScreenSpaceEventHandler(host.scene.canvas);
+        this._handler.setInputAction(
+            (movement: ScreenSpaceEventHandler.MotionEvent) => this.show(movement.endPosition),
+            ScreenSpaceEventType.MOUSE_MOVE
+        );
+    }
+
+    unmount() {
+        this._handler?.destroy();
+        this._handler = undefined;
+
+        this.element.parentNode?.removeChild(this.element);
+    }
+
+    /**
+     * Show the wind under a window position, or hide the tooltip where there is none
+     * @param windowPosition
+     */
+    show(windowPosition: Cartesian2) {
+        const sample = this._particles.pickWind(windowPosition);
+
+        if (!sample) {
+            this.hide();
+            return;
+        }
+
+        const unit = this.options.unit ?? "m/s";
+
+        this.element.textContent =
+            `${formatSpeed(sample.speed, unit)} from ${Math.round(sample.directionFrom)}°\n` +
+            `${sample.latitude.toFixed(2)}, ${sample.longitude.toFixed(2)}`;
+
+        this.element.style.left = windowPosition.x + 12 + "px";
+        this.element.style.top = windowPosition.y + 12 + "px";
+        this.element.style.display = "block";
+    }
+
+    hide() {
+        this.element.style.display = "none";
+    }
+
+    isDestroyed() {
+        return false;
+    }
+
+    destroy() {
+        this.unmount();
+
+        return destroyObject(this);
+    }
+}
+
+export default WindTooltip;
@@ -0,0 +1,44 @@
+import { IntegratorMethod } from "./Integrator";
+import { SeedFallback } from "./Field";
+import { TransferredField, TransferredFieldSeries } from "./FieldTransfer";
+
+// floats per segment posted back by the worker: x, y, xt, yt, m, u, v, age
+export const segmentStride = 8;
+
+export interface InitRequest {
+    type: "init";
+    field: TransferredField | TransferredFieldSeries;
+    count: number;
+    maxAge: number;
+    // initial visible positions, lon, lat pairs
+    seeds: Float32Array;
+    // what to do when no seed is left
+    fallback: SeedFallback;
+}
+
+/**
+ * visible positions (lon, lat pairs) found by the main thread, used to restart particles
+ */
+export interface SeedsRequest {
+    type: "seeds";
+    seeds: Float32Array;
+}
+
+export interface StepRequest {
+    type: "step";
+    maxAge: number;
+    integrator: IntegratorMethod;
+    scale: number;
+    // time of a field series, as JulianDate day number and seconds of day
+    dayNumber?: number;
+    secondsOfDay?: number;
+}
+
+export type ParticleWorkerRequest = InitRequest | SeedsRequest | StepRequest;
+
+export interface SegmentsResponse {
+    type: "segments";
+    // count segments of segmentStride floats
+    segments: Float32Array;
+    count: number;
+}
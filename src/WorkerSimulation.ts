@@ -0,0 +1,109 @@
+import { JulianDate } from "cesium";
+import Field, { SeedFallback } from "./Field";
+import FieldSeries from "./FieldSeries";
+import { IntegratorMethod } from "./Integrator";
+import { serializeField } from "./FieldTransfer";
+import { InitRequest, SeedsRequest, SegmentsResponse, StepRequest } from "./WorkerMessages";
+
+/**
+ * Main thread side of the particle worker.
+ * One step is in flight at a time, the segments of the last finished step are kept until taken.
+ */
+class WorkerSimulation {
+    readonly count: number;
+
+    private _worker: Worker;
+    private _busy = false;
+    private _segments: Float32Array | null = null;
+    private _segmentCount = 0;
+
+    constructor(
+        field: Field | FieldSeries,
+        count: number,
+        maxAge: number,
+        seeds: Float32Array,
+        fallback: SeedFallback = "extent"
+    ) {
+        this.count = count;
+        this._worker = new Worker(new URL("./ParticleWorker.ts", import.meta.url), { type: "module" });
+
+        this._worker.onmessage = (event: MessageEvent<SegmentsResponse>) => {
+            this._busy = false;
+            this._segments = event.data.segments;
+            this._segmentCount = event.data.count;
+        };
+
+        this._worker.onerror = (event) => {
+            this._busy = false;
+            console.error("[wind-core]: particle worker error", event.message);
+        };
+
+        const { data, transferables } = serializeField(field);
+
+        const request: InitRequest = {
+            type: "init",
+            field: data,
+            count: count,
+            maxAge: maxAge,
+            seeds: seeds,
+            fallback: fallback
+        };
+
+        this._worker.postMessage(request, [...transferables, seeds.buffer]);
+    }
+
+    /**
+     * whether a step is running in the worker
+     */
+    get busy() {
+        return this._busy;
+    }
+
+    pushSeeds(seeds: Float32Array) {
+        if (seeds.length === 0) {
+            return;
+        }
+
+        const request: SeedsRequest = { type: "seeds", seeds: seeds };
+
+        this._worker.postMessage(request, [seeds.buffer]);
+    }
+
+    step(scale: number, maxAge: number, integrator: IntegratorMethod, time?: JulianDate) {
+        const request: StepRequest = {
+            type: "step",
+            scale: scale,
+            maxAge: maxAge,
+            integrator: integrator,
+            dayNumber: time?.dayNumber,
+            secondsOfDay: time?.secondsOfDay
+        };
+
+        this._busy = true;
+        this._worker.postMessage(request);
+    }
+
+    /**
+     * Segments of the last step, once
+     * @returns packed x, y, xt, yt, m segments and their count, or null if no new step finished
+     */
+    takeSegments() {
+        const segments = this._segments;
+
+        if (segments === null) {
+            return null;
+        }
+
+        this._segments = null;
+
+        return { segments: segments, count: this._segmentCount };
+    }
+
+    terminate() {
+        this._worker.terminate();
+        this._busy = false;
+        this._segments = null;
+    }
+}
+
+export default WorkerSimulation;
@@ -2,6 +2,9 @@ import { Viewer } from "cesium";
 import "cesium/Build/Cesium/Widgets/widgets.css";
 
 import CesiumParticles from "./CesiumParticles";
+import Legend from "./Legend";
+import WindTooltip from "./WindTooltip";
+import WindImageryProvider from "./WindImageryProvider";
 
 const viewer = new Viewer("cesiumContainer", {});
 
@@ -28,8 +31,8 @@ const particleOptions = {
     // colorScale: "#fff",
     velocityScale: 0.09,
     maxAge: 60, // 粒子在重新生成之前绘制的最大帧数
-    // particleMultiplier: 1 / 300, // TODO: PATHS = Math.round(width * height * particleMultiplier);
-    paths: 10000,
+    particleDensity: 1 / 300, // particles per square pixel of the view covered by the wind
+    paths: 10000, // at most
     frameRate: 20
 };
 
@@ -45,7 +48,12 @@ if (useGFS) {
     const particlePromise = CesiumParticles.createFromNetCDFUrl("./wind.nc", particleOptions);
 
     particlePromise.then((particle) => {
+        viewer.imageryLayers.addImageryProvider(
+            new WindImageryProvider(particle.field!, { colorScale: particle.colorScale, opacity: 0.5 })
+        );
         particle.addToCesiumScene(viewer.scene);
+        new Legend(particle, { unit: "knots" }).mount(viewer);
+        new WindTooltip(particle, { unit: "knots" }).mount(viewer);
         window.particle = particle;
     });
 }
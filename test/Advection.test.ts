@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { advectParticles } from "../src/Advection";
+import Field from "../src/Field";
+import ParticlePool from "../src/ParticlePool";
+import { IntegratorMethod } from "../src/Integrator";
+
+// 10 m/s eastward wind on a 10° grid, from 180°W to 170°E or over a region
+function eastward(xmin: number, cols: number) {
+    const rows = 19;
+
+    return new Field({
+        xmin: xmin,
+        xmax: xmin + (cols - 1) * 10,
+        ymin: -90,
+        ymax: 90,
+        deltaX: 10,
+        deltaY: 10,
+        cols: cols,
+        rows: rows,
+        us: new Array(cols * rows).fill(10),
+        vs: new Array(cols * rows).fill(0)
+    });
+}
+
+function pool(x: number, y: number) {
+    const particles = new ParticlePool(1);
+
+    particles.x[0] = x;
+    particles.y[0] = y;
+
+    return particles;
+}
+
+// one degree per step at the equator
+const scale = 0.1;
+
+describe("advectParticles", () => {
+    it("carries particles across the antimeridian", () => {
+        const field = eastward(-180, 36);
+
+        const integrators: IntegratorMethod[] = ["euler", "rk2", "rk4"];
+
+        integrators.forEach((integrator) => {
+            const particles = pool(179.5, 0);
+            const reseed = () => {
+                throw new Error("unexpected reseed");
+            };
+
+            advectParticles(particles, field, { maxAge: 10, integrator, scale }, reseed);
+
+            expect(particles.visible[0]).toBe(1);
+            expect(particles.xt[0]).toBeCloseTo(-179.5, 10);
+            expect(particles.yt[0]).toBe(0);
+            expect(particles.age[0]).toBe(1);
+            expect(particles.m[0]).toBeCloseTo(10, 5);
+        });
+    });
+
+    it("retires particles leaving a regional field", () => {
+        const field = eastward(100, 3);
+        const particles = pool(119.5, 0);
+        const reseeded: number[] = [];
+        const reseed = (index: number) => {
+            reseeded.push(index);
+            particles.x[index] = 110;
+            particles.y[index] = 0;
+            return true;
+        };
+
+        advectParticles(particles, field, { maxAge: 10, integrator: "euler", scale }, reseed);
+
+        expect(particles.visible[0]).toBe(0);
+        expect(particles.age[0]).toBe(11);
+
+        advectParticles(particles, field, { maxAge: 10, integrator: "euler", scale }, reseed);
+
+        expect(reseeded).toEqual([0]);
+        expect(particles.visible[0]).toBe(1);
+        expect(particles.xt[0]).toBeCloseTo(111, 10);
+        expect(particles.age[0]).toBe(1);
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { JulianDate } from "cesium";
+import CesiumParticles, { ParticleOptions } from "../src/CesiumParticles";
+
+const defaults: ParticleOptions = {
+    globalAlpha: 0.9,
+    lineWidth: 1,
+    colorScale: "#fff",
+    velocityScale: 1,
+    maxAge: 30,
+    paths: 100,
+    frameRate: 20
+};
+
+describe("setOptions", () => {
+    function listen(particles: CesiumParticles) {
+        const events: string[][] = [];
+
+        particles.optionsChanged.addEventListener((_, changed) => events.push(changed));
+
+        return events;
+    }
+
+    it("rejects invalid values", () => {
+        const particles = new CesiumParticles(defaults);
+        const invalid: [Partial<ParticleOptions>, string][] = [
+            [{ paths: -1 }, "paths must be a non-negative integer: -1"],
+            [{ maxAge: 1.5 }, "maxAge must be a positive integer: 1.5"],
+            [{ globalAlpha: 2 }, "globalAlpha must be between 0 and 1: 2"],
+            [{ verticalScale: -1 }, "verticalScale must not be negative: -1"],
+            [{ colorRange: [5, 1] }, "colorRange must be ascending: 5,1"],
+            [{ height: NaN }, "invalid height: NaN"],
+            [{ integrator: "rk3" as ParticleOptions["integrator"] }, "invalid integrator: 'rk3', use euler, rk2, rk4"],
+            [{ colorScale: [{ value: 0, color: "red" }] }, "unsupported color: 'red', use hex, rgb() or rgba()"]
+        ];
+
+        invalid.forEach(([options, message]) => {
+            expect(() => particles.setOptions(options)).toThrow(message);
+        });
+    });
+
+    it("leaves the options unchanged when a value is rejected", () => {
+        const particles = new CesiumParticles(defaults);
+        const options = particles.options;
+        const colorScale = particles.colorScale;
+        const events = listen(particles);
+
+        expect(() => particles.setOptions({ paths: 50, lineWidth: 2, globalAlpha: -0.5 })).toThrow("globalAlpha");
+        expect(() => particles.setOptions({ paths: 50, colorScale: [{ value: 0, color: "blue" }] })).toThrow(
+            "unsupported color"
+        );
+
+        expect(particles.options).toBe(options);
+        expect(particles.options).toEqual(defaults);
+        expect(particles.colorScale).toBe(colorScale);
+        expect(events).toEqual([]);
+    });
+
+    it("raises optionsChanged once per valid update, with the changed names", () => {
+        const particles = new CesiumParticles(defaults);
+        const colorScale = particles.colorScale;
+        const events = listen(particles);
+
+        particles.setOptions({ paths: 100, maxAge: 30 });
+        expect(events).toEqual([]);
+
+        particles.setOptions({ paths: 50, maxAge: 30, lineWidth: 2 });
+        expect(events).toEqual([["paths", "lineWidth"]]);
+        expect(particles.options).toEqual({ ...defaults, paths: 50, lineWidth: 2 });
+        expect(particles.colorScale).toBe(colorScale);
+
+        particles.setOptions({ colorScale: "viridis" });
+        expect(events).toHaveLength(2);
+        expect(particles.colorScale.colors).toHaveLength(64);
+    });
+
+    it("locks the velocity scale", () => {
+        const particles = new CesiumParticles(defaults);
+
+        particles.setOptions({ autoVelocityScale: false, velocityScale: 3 });
+        expect(particles._velocityScale).toBe(3);
+    });
+});
+
+describe("color options", () => {
+    it("spreads stops over their values unless a colorRange is given", () => {
+        const particles = new CesiumParticles({ ...defaults, colorScale: "windy" });
+
+        expect(particles.colorRange()).toEqual(particles.colorScale.domain);
+
+        particles.setOptions({ colorRange: [0, 20] });
+        expect(particles.colorRange()).toEqual([0, 20]);
+    });
+
+    it("rejects the windy palette for directions and ages without a colorRange", () => {
+        expect(() => new CesiumParticles({ ...defaults, colorScale: "windy", colorBy: "direction" })).toThrow(
+            "the windy palette is in m/s, give a colorRange to color by direction"
+        );
+
+        const particles = new CesiumParticles({ ...defaults, colorScale: "windy", colorRange: [0, 60] });
+
+        particles.setOptions({ colorBy: "age" });
+        expect(() => particles.setOptions({ colorRange: undefined })).toThrow("give a colorRange to color by age");
+        expect(particles.options.colorRange).toEqual([0, 60]);
+    });
+});
+
+type GFSRecord = Parameters<typeof CesiumParticles.createFieldSeriesFromGFS>[0][number];
+
+// u or v record of a 3 x 2 grid of 10° from 10°N 100°E, filled with the value
+function record(parameterNumber: number, value: number, time: Partial<GFSRecord["header"]>): GFSRecord {
+    return {
+        header: {
+            la1: 10,
+            la2: 0,
+            lo1: 100,
+            lo2: 120,
+            dx: 10,
+            dy: 10,
+            nx: 3,
+            ny: 2,
+            parameterCategory: 2,
+            parameterNumber: parameterNumber,
+            ...time
+        },
+        data: new Array(6).fill(value) as [number]
+    };
+}
+
+describe("createFieldSeriesFromGFS", () => {
+    it("groups the records by valid time", () => {
+        const refTime = "2025-06-01T00:00:00.000Z";
+        // 6 hours after the reference time, in seconds since 1970
+        const validTime = String(Date.parse(refTime) / 1000 + 6 * 3600);
+
+        const series = CesiumParticles.createFieldSeriesFromGFS([
+            record(2, 12, { refTime, forecastTime: 12 }),
+            record(2, 6, { GRIB_VALID_TIME: validTime }),
+            record(3, 0, { refTime, forecastTime: 12 }),
+            record(2, 0, { refTime, forecastTime: 0 }),
+            record(3, 0, { GRIB_VALID_TIME: validTime }),
+            record(3, 0, { refTime, forecastTime: 0 })
+        ]);
+
+        expect(series.steps.map((step) => JulianDate.toIso8601(step.time, 0))).toEqual([
+            "2025-06-01T00:00:00Z",
+            "2025-06-01T06:00:00Z",
+            "2025-06-01T12:00:00Z"
+        ]);
+        expect(series.steps.map((step) => step.field.valueAt(110, 5)!.u)).toEqual([0, 6, 12]);
+
+        series.setTime(JulianDate.fromIso8601("2025-06-01T09:00:00Z"));
+        expect(series.interpolatedValueAt(110, 5)!.u).toBeCloseTo(9, 10);
+    });
+
+    it("needs both components at every time", () => {
+        expect(() =>
+            CesiumParticles.createFieldSeriesFromGFS([
+                record(2, 1, { refTime: "2025-06-01T00:00:00Z", forecastTime: 0 }),
+                record(3, 1, { refTime: "2025-06-01T00:00:00Z", forecastTime: 0 }),
+                record(2, 1, { refTime: "2025-06-01T00:00:00Z", forecastTime: 3 })
+            ])
+        ).toThrow("invalid data");
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import ColorScale, { parseColor } from "../src/ColorScale";
+
+describe("parseColor", () => {
+    it("parses hex, rgb() and rgba() colors", () => {
+        expect(parseColor("#f00")).toEqual([255, 0, 0, 1]);
+        expect(parseColor(" #00ff0080 ")).toEqual([0, 255, 0, 128 / 255]);
+        expect(parseColor("rgb(1, 2, 3)")).toEqual([1, 2, 3, 1]);
+        expect(parseColor("rgba(1 2 3 / 0.5)")).toEqual([1, 2, 3, 0.5]);
+    });
+
+    it("throws on other colors", () => {
+        expect(() => parseColor("red")).toThrow("unsupported color: 'red', use hex, rgb() or rgba()");
+        expect(() => parseColor("#12345")).toThrow("unsupported color");
+    });
+});
+
+describe("ColorScale", () => {
+    it("keeps a single color", () => {
+        const scale = new ColorScale("white");
+
+        expect(scale.colors).toEqual(["white"]);
+        expect(scale.bucketFor(12, [0, 10])).toBe(0);
+    });
+
+    it("spreads discrete colors over the range", () => {
+        const scale = new ColorScale(["#000", "#888", "#fff"]);
+
+        expect(scale.colors).toEqual(["#000", "#888", "#fff"]);
+        expect(scale.domain).toBeUndefined();
+        expect([-5, 0, 4, 6, 10, 100].map((value) => scale.bucketFor(value, [0, 10]))).toEqual([0, 0, 1, 1, 2, 2]);
+    });
+
+    it("quantizes gradient stops over their values", () => {
+        const scale = new ColorScale(
+            [
+                { value: 10, color: "#ffffff" },
+                { value: 0, color: "#000000" }
+            ],
+            { buckets: 2 }
+        );
+
+        expect(scale.domain).toEqual([0, 10]);
+        expect(scale.colors).toEqual(["rgba(64, 64, 64, 1)", "rgba(191, 191, 191, 1)"]);
+        expect(scale.bucketFor(7, scale.domain!)).toBe(1);
+        expect(scale.bucketFor(-3, scale.domain!)).toBe(0);
+    });
+
+    it("stretches the stops over another range", () => {
+        const windy = new ColorScale("windy", { buckets: 10 });
+
+        expect(windy.bucketFor(50, windy.domain!)).toBe(4);
+        expect(windy.bucketFor(500, [0, windy.domain![1] * 10])).toBe(4);
+        expect(windy.bucketFor(7, [0, 10])).toBe(7);
+    });
+
+    it("interpolates in the requested color space", () => {
+        const stops = [
+            { value: 0, color: "#ff0000" },
+            { value: 1, color: "#0000ff" }
+        ];
+
+        expect(new ColorScale(stops, { buckets: 1 }).colors).toEqual(["rgba(128, 0, 128, 1)"]);
+        // hues turn the short way, through magenta
+        expect(new ColorScale(stops, { buckets: 1, colorSpace: "hsl" }).colors).toEqual(["rgba(255, 0, 255, 1)"]);
+
+        const gray = new ColorScale(
+            [
+                { value: 0, color: "#000000" },
+                { value: 1, color: "#ffffff" }
+            ],
+            { buckets: 1, colorSpace: "lab" }
+        );
+
+        expect(gray.colors).toEqual(["rgba(119, 119, 119, 1)"]);
+    });
+
+    it("builds the palettes", () => {
+        const viridis = new ColorScale("viridis");
+
+        expect(viridis.colors).toHaveLength(64);
+        expect(viridis.domain).toBeUndefined();
+        expect(viridis.bucketFor(10, [0, 10])).toBe(63);
+        expect(new ColorScale("windy", { buckets: 16 }).domain).toBeDefined();
+    });
+
+    it("gives the first bucket to missing values and empty ranges", () => {
+        const scale = new ColorScale("turbo");
+
+        expect(scale.bucketFor(NaN, [0, 10])).toBe(0);
+        expect(scale.bucketFor(5, [3, 3])).toBe(0);
+    });
+
+    it("throws on an empty list", () => {
+        expect(() => new ColorScale([])).toThrow("colorScale must have at least one color");
+    });
+});
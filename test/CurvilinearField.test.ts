@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import CurvilinearField from "../src/CurvilinearField";
+
+// 3 x 3 points spaced 10° along axes rotated 30° counterclockwise, from 100°E 20°N
+const angle = Math.PI / 6;
+const east = [10 * Math.cos(angle), 10 * Math.sin(angle)];
+const north = [-10 * Math.sin(angle), 10 * Math.cos(angle)];
+
+function point(i: number, j: number): [number, number] {
+    return [100 + i * east[0] + j * north[0], 20 + i * east[1] + j * north[1]];
+}
+
+function rotated() {
+    const lons = [];
+    const lats = [];
+    const us = [];
+
+    for (let j = 0; j < 3; j++) {
+        for (let i = 0; i < 3; i++) {
+            const [lon, lat] = point(i, j);
+
+            lons.push(lon);
+            lats.push(lat);
+            // u is the column index plus 10 times the row index
+            us.push(i + 10 * j);
+        }
+    }
+
+    return new CurvilinearField({ cols: 3, rows: 3, lons, lats, us, vs: new Array(9).fill(0) });
+}
+
+describe("CurvilinearField", () => {
+    const out = new Float64Array(3);
+    const indexes = new Float64Array(2);
+
+    it("locates points inside rotated cells", () => {
+        const field = rotated();
+        const [lon, lat] = point(1.25, 0.5);
+
+        field.decimalIndexesInto(lon, lat, indexes);
+        expect(indexes[0]).toBeCloseTo(1.25, 8);
+        expect(indexes[1]).toBeCloseTo(0.5, 8);
+
+        expect(field.locateInCell(0, ...point(0.3, 0.6))).toEqual([expect.closeTo(0.3, 8), expect.closeTo(0.6, 8)]);
+        expect(field.locateInCell(1, ...point(0.3, 0.6))).toBeNull();
+
+        expect(field.sample(...point(1.5, 1.5), out)).toBe(true);
+        expect(out[0]).toBeCloseTo(16.5, 8);
+    });
+
+    it("has no value in the bounding box outside the grid", () => {
+        const field = rotated();
+        const [lon, lat] = point(-0.3, 0.5);
+
+        expect(lon).toBeGreaterThan(field.xmin);
+        expect(lat).toBeGreaterThan(field.ymin);
+        expect(field.contains(lon, lat)).toBe(false);
+        expect(field.sample(lon, lat, out)).toBe(false);
+
+        field.decimalIndexesInto(lon, lat, indexes);
+        expect(indexes[0]).toBeNaN();
+    });
+
+    it("finds every cell through the bucket index", () => {
+        const field = rotated();
+
+        for (let j = 0; j < 2; j++) {
+            for (let i = 0; i < 2; i++) {
+                const [lon, lat] = point(i + 0.5, j + 0.5);
+
+                expect(field.lookup(lon, lat)).toBe(true);
+                field.decimalIndexesInto(lon, lat, indexes);
+                expect([indexes[0], indexes[1]]).toEqual([expect.closeTo(i + 0.5, 8), expect.closeTo(j + 0.5, 8)]);
+            }
+        }
+    });
+
+    it("rejects coordinate arrays of the wrong size", () => {
+        expect(
+            () => new CurvilinearField({ cols: 2, rows: 2, lons: [0, 1, 2], lats: [0, 1, 2], us: [], vs: [] })
+        ).toThrow("lons and lats must have 4 values (2 rows x 2 cols)");
+    });
+});
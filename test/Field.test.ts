@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import Field, { InterpolationMethod } from "../src/Field";
+
+interface GridOptions {
+    xmin: number;
+    ymax: number;
+    cols: number;
+    rows: number;
+    delta: number;
+    us?: (number | null)[];
+    vs?: (number | null)[];
+    interpolation?: InterpolationMethod;
+}
+
+// grid whose extent ends on its last points, as the loaders build them
+function grid(options: GridOptions) {
+    const count = options.cols * options.rows;
+
+    return new Field({
+        xmin: options.xmin,
+        xmax: options.xmin + (options.cols - 1) * options.delta,
+        ymin: options.ymax - (options.rows - 1) * options.delta,
+        ymax: options.ymax,
+        deltaX: options.delta,
+        deltaY: options.delta,
+        cols: options.cols,
+        rows: options.rows,
+        us: options.us ?? new Array(count).fill(1),
+        vs: options.vs ?? new Array(count).fill(0),
+        interpolation: options.interpolation
+    });
+}
+
+describe("regional extent", () => {
+    // 100°E to 120°E, 10°N to 30°N
+    const regional = grid({ xmin: 100, ymax: 30, cols: 3, rows: 3, delta: 10 });
+
+    it("contains only the coordinates inside the grid", () => {
+        expect(regional.contains(110, 20)).toBe(true);
+        expect(regional.contains(120, 10)).toBe(true);
+        expect(regional.contains(90, 20)).toBe(false);
+        expect(regional.contains(-170, 20)).toBe(false);
+        expect(regional.contains(110, 40)).toBe(false);
+        expect(() => regional.contains(181, 0)).toThrow("invalid longitude: 181");
+    });
+
+    it("has no value outside the grid", () => {
+        const out = new Float64Array(3);
+
+        expect(regional.hasValueAt(110, 20)).toBe(true);
+        expect(regional.hasValueAt(95, 20)).toBe(false);
+        expect(regional.sample(130, 20, out)).toBe(false);
+        expect(regional.valueAt(110, 5)).toBeNull();
+    });
+
+    it("wraps longitudes of grids crossing the dateline", () => {
+        // 170°E to 170°W, the second column at 180°
+        const pacific = grid({ xmin: 170, ymax: 10, cols: 3, rows: 2, delta: 10, us: [1, 2, 3, 4, 5, 6] });
+
+        expect(pacific.contains(-175, 0)).toBe(true);
+        expect(pacific.contains(-165, 0)).toBe(false);
+        expect(pacific.contains(165, 0)).toBe(false);
+        expect(pacific.valueAt(-170, 10)!.u).toBe(3);
+    });
+
+    it("reseeds inside the extent", () => {
+        const particle = { age: 0, x: 0, y: 0 };
+
+        expect(regional.assignRandomPosition(particle, 100, 100, () => [112, 21])).toBe(true);
+        expect([particle.x, particle.y]).toEqual([112, 21]);
+
+        // no visible pixel over the grid: a random position of the extent
+        for (let k = 0; k < 20; k++) {
+            regional.assignRandomPosition(particle, 100, 100, () => [0, 0]);
+
+            expect(regional.contains(particle.x, particle.y)).toBe(true);
+        }
+
+        expect(regional.assignRandomPosition(particle, 100, 100, () => null, { fallback: "none" })).toBe(false);
+    });
+});
+
+describe("interpolation", () => {
+    const out = new Float64Array(3);
+
+    // corners of one 10° cell: 0 and 10 on the north row, 20 and 30 on the south row
+    const cell = { xmin: 0, ymax: 10, cols: 2, rows: 2, delta: 10 };
+
+    it("interpolates bilinearly", () => {
+        const field = grid({ ...cell, us: [0, 10, 20, 30] });
+
+        expect(field.sample(5, 5, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(15, 10);
+        expect(field.sample(2.5, 10, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(2.5, 10);
+    });
+
+    it("renormalizes the weights around masked neighbours", () => {
+        const field = grid({ ...cell, us: [0, 10, 20, null], vs: [0, 0, 0, null] });
+
+        expect(field.sample(5, 5, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(10, 10);
+    });
+
+    it("has no value where all corners are masked", () => {
+        const field = grid({
+            xmin: 0,
+            ymax: 10,
+            cols: 3,
+            rows: 2,
+            delta: 10,
+            us: [1, null, null, 1, null, null],
+            vs: [0, null, null, 0, null, null]
+        });
+
+        expect(field.sample(15, 5, out)).toBe(false);
+        expect(field.sample(5, 5, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(1, 10);
+    });
+
+    it("takes the nearest grid point", () => {
+        const field = grid({ ...cell, us: [0, 10, 20, 30], interpolation: "nearest" });
+
+        field.sample(6, 6, out);
+        expect(out[0]).toBe(10);
+        field.sample(4, 4, out);
+        expect(out[0]).toBe(20);
+    });
+
+    it("keeps the speed when interpolating the direction", () => {
+        const row = { xmin: 0, ymax: 0, cols: 2, rows: 1, delta: 10, us: [10, 0], vs: [0, 10] };
+
+        grid(row).sample(5, 0, out);
+        expect(out[2]).toBeCloseTo(Math.SQRT2 * 5, 10);
+
+        grid({ ...row, interpolation: "direction" }).sample(5, 0, out);
+        expect(out[0]).toBeCloseTo(10 / Math.SQRT2, 10);
+        expect(out[1]).toBeCloseTo(10 / Math.SQRT2, 10);
+        expect(out[2]).toBeCloseTo(10, 10);
+    });
+
+    it("interpolates bicubically, bilinearly next to missing points", () => {
+        // u is the square of the column index on a 4 x 4 grid
+        const us = Array.from({ length: 16 }, (_, k) => (k % 4) * (k % 4));
+        const square = { xmin: 0, ymax: 30, cols: 4, rows: 4, delta: 10, interpolation: "bicubic" as const };
+
+        grid({ ...square, us }).sample(15, 20, out);
+        expect(out[0]).toBeCloseTo(2.25, 10);
+
+        // the missing point is one of the 16 neighbours but not a corner of the cell
+        const missing = us.map((u, k) => (k === 7 ? null : u));
+
+        grid({ ...square, us: missing }).sample(15, 20, out);
+        expect(out[0]).toBeCloseTo(2.5, 10);
+    });
+});
+
+describe("antimeridian", () => {
+    const out = new Float64Array(3);
+
+    // u is the column index, 10° columns from 180°W to 170°E
+    const global = grid({
+        xmin: -180,
+        ymax: 10,
+        cols: 36,
+        rows: 3,
+        delta: 10,
+        us: Array.from({ length: 108 }, (_, k) => k % 36)
+    });
+
+    it("interpolates across the antimeridian of global grids", () => {
+        expect(global.isContinuous).toBe(true);
+        expect(global.contains(179.9, 0)).toBe(true);
+
+        global.sample(175, 0, out);
+        expect(out[0]).toBeCloseTo(17.5, 10);
+
+        global.sample(-180, 0, out);
+        expect(out[0]).toBeCloseTo(0, 10);
+    });
+
+    it("wraps grids from 0° to 360°", () => {
+        const field = grid({
+            xmin: 0,
+            ymax: 0,
+            cols: 36,
+            rows: 1,
+            delta: 10,
+            us: Array.from({ length: 36 }, (_, k) => k)
+        });
+
+        field.sample(-5, 0, out);
+        expect(out[0]).toBeCloseTo(17.5, 10);
+        expect(field.valueAt(-10, 0)!.u).toBe(35);
+    });
+
+    it("treats a 0.1° grid as global despite rounding", () => {
+        const cols = 3600;
+        const field = new Field({
+            xmin: -180,
+            xmax: 179.9,
+            ymin: 0,
+            ymax: 0,
+            deltaX: (179.9 - -180) / (cols - 1),
+            deltaY: 0.1,
+            cols: cols,
+            rows: 1,
+            us: new Array(cols).fill(1),
+            vs: new Array(cols).fill(0)
+        });
+
+        expect(field.isContinuous).toBe(true);
+        expect(field.hasValueAt(179.95, 0)).toBe(true);
+    });
+});
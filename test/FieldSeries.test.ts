@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { JulianDate } from "cesium";
+import Field from "../src/Field";
+import FieldSeries from "../src/FieldSeries";
+
+// 10° cell with a uniform u, its south-east corner missing if masked
+function uniform(u: number, masked = false) {
+    return new Field({
+        xmin: 0,
+        xmax: 10,
+        ymin: 0,
+        ymax: 10,
+        deltaX: 10,
+        deltaY: 10,
+        cols: 2,
+        rows: 2,
+        us: [u, u, u, masked ? null : u],
+        vs: [0, 0, 0, masked ? null : 0]
+    });
+}
+
+const start = JulianDate.fromIso8601("2025-06-01T00:00:00Z");
+
+function hoursAfter(hours: number) {
+    return JulianDate.addHours(start, hours, new JulianDate());
+}
+
+describe("FieldSeries", () => {
+    const out = new Float64Array(3);
+
+    // steps at 0, 3, 6, 12 and 24 hours, u being the hour
+    const hours = [12, 0, 24, 6, 3];
+    const series = new FieldSeries(hours.map((hour) => ({ time: hoursAfter(hour), field: uniform(hour) })));
+
+    function uAt(hour: number) {
+        series.setTime(hoursAfter(hour));
+        series.sample(5, 5, out);
+
+        return out[0];
+    }
+
+    it("sorts the steps by time", () => {
+        expect(series.steps.map((step) => step.field.range[1])).toEqual([0, 3, 6, 12, 24]);
+        expect(JulianDate.equals(series.start, start)).toBe(true);
+        expect(JulianDate.equals(series.stop, hoursAfter(24))).toBe(true);
+        expect(series.range).toEqual([0, 24]);
+    });
+
+    it("interpolates between the enclosing steps", () => {
+        expect(uAt(1.5)).toBeCloseTo(1.5, 10);
+        expect(uAt(4)).toBeCloseTo(4, 10);
+        expect(uAt(9)).toBeCloseTo(9, 10);
+        expect(uAt(21)).toBeCloseTo(21, 10);
+        expect(out[2]).toBeCloseTo(21, 10);
+        expect(series.interpolatedValueAt(5, 5)!.u).toBeCloseTo(21, 10);
+    });
+
+    it("finds the step of every time", () => {
+        // exact times of the steps, searched from both sides
+        [24, 0, 12, 3, 6].forEach((hour) => {
+            expect(uAt(hour)).toBeCloseTo(hour, 10);
+            expect(series.seconds).toBe(start.dayNumber * 86400 + start.secondsOfDay + hour * 3600);
+        });
+    });
+
+    it("clamps times outside the series", () => {
+        expect(uAt(-6)).toBe(0);
+        expect(series.field).toBe(series.steps[0].field);
+        expect(uAt(48)).toBe(24);
+        expect(series.field).toBe(series.steps[4].field);
+    });
+
+    it("takes the nearest step for the field", () => {
+        series.setTime(hoursAfter(4));
+        expect(series.field).toBe(series.steps[1].field);
+        series.setTime(hoursAfter(5));
+        expect(series.field).toBe(series.steps[2].field);
+    });
+
+    it("accepts plain day numbers and seconds of day", () => {
+        const time = hoursAfter(1.5);
+
+        series.setTime({ dayNumber: time.dayNumber, secondsOfDay: time.secondsOfDay });
+        series.sample(5, 5, out);
+        expect(out[0]).toBeCloseTo(1.5, 10);
+    });
+
+    it("keeps the current value where the next step has none", () => {
+        const gappy = new FieldSeries([
+            { time: start, field: uniform(2) },
+            { time: hoursAfter(1), field: uniform(4, true) }
+        ]);
+
+        gappy.setTime(hoursAfter(0.5));
+
+        // the south-east corner
+        expect(gappy.sample(10, 0, out)).toBe(true);
+        expect(out[0]).toBe(2);
+        expect(gappy.sample(1, 9, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(3, 10);
+    });
+
+    it("needs a step", () => {
+        expect(() => new FieldSeries([])).toThrow("at least one field step is required");
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { JulianDate } from "cesium";
+import Field from "../src/Field";
+import FieldSeries from "../src/FieldSeries";
+import RectilinearField from "../src/RectilinearField";
+import CurvilinearField from "../src/CurvilinearField";
+import { deserializeField, serializeField } from "../src/FieldTransfer";
+
+// 2 x 2 grid of 10° with a missing south-east corner
+function regular(u: number) {
+    return new Field({
+        xmin: 0,
+        xmax: 10,
+        ymin: 0,
+        ymax: 10,
+        deltaX: 10,
+        deltaY: 10,
+        cols: 2,
+        rows: 2,
+        us: [u, u + 1, u + 2, null],
+        vs: [0, 1, 2, null],
+        interpolation: "nearest"
+    });
+}
+
+function roundTrip(field: Field | FieldSeries) {
+    const { data, transferables } = serializeField(field);
+
+    // what postMessage would copy
+    return { field: deserializeField(structuredClone(data)), transferables };
+}
+
+describe("serializeField", () => {
+    const out = new Float64Array(3);
+
+    it("rebuilds a regular field with its mask", () => {
+        const { field, transferables } = roundTrip(regular(1));
+
+        expect(field).toBeInstanceOf(Field);
+        expect(transferables).toHaveLength(2);
+
+        const restored = field as Field;
+
+        expect([restored.cols, restored.rows, restored.deltaX, restored.interpolation]).toEqual([2, 2, 10, "nearest"]);
+        expect(Array.from(restored.mask)).toEqual([1, 1, 1, 0]);
+        expect(restored.valueAt(10, 10)!.u).toBe(2);
+        expect(restored.sample(9, 1, out)).toBe(false);
+    });
+
+    it("keeps the coordinates of rectilinear and curvilinear fields", () => {
+        const rectilinear = new RectilinearField({
+            lons: [0, 5, 20],
+            lats: [30, 0],
+            us: [1, 2, 3, 4, 5, 6],
+            vs: [0, 0, 0, 0, 0, 0]
+        });
+        const curvilinear = new CurvilinearField({
+            cols: 2,
+            rows: 2,
+            lons: [0, 10, 2, 12],
+            lats: [10, 12, 0, 2],
+            us: [1, 2, 3, 4],
+            vs: [0, 0, 0, 0]
+        });
+
+        const rectilinearCopy = roundTrip(rectilinear).field as RectilinearField;
+        const curvilinearCopy = roundTrip(curvilinear).field as CurvilinearField;
+
+        expect(rectilinearCopy).toBeInstanceOf(RectilinearField);
+        expect(Array.from(rectilinearCopy.lons)).toEqual([0, 5, 20]);
+        expect(Array.from(rectilinearCopy.lats)).toEqual(Array.from(rectilinear.lats));
+        expect(curvilinearCopy).toBeInstanceOf(CurvilinearField);
+        expect(Array.from(curvilinearCopy.lats)).toEqual([10, 12, 0, 2]);
+
+        expect(rectilinearCopy.sample(5, 15, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(3.5, 6);
+        curvilinear.sample(6, 6, out);
+        const u = out[0];
+        expect(curvilinearCopy.sample(6, 6, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(u, 10);
+    });
+
+    it("rebuilds a series with the times of its steps", () => {
+        const start = JulianDate.fromIso8601("2025-06-01T00:00:00Z");
+        const later = JulianDate.addHours(start, 6, new JulianDate());
+        const series = new FieldSeries([
+            { time: later, field: regular(10) },
+            { time: start, field: regular(0) }
+        ]);
+
+        const { field, transferables } = roundTrip(series);
+
+        expect(field).toBeInstanceOf(FieldSeries);
+        expect(transferables).toHaveLength(4);
+
+        const restored = field as FieldSeries;
+
+        expect(restored.steps.map((step) => [step.time.dayNumber, step.time.secondsOfDay])).toEqual([
+            [start.dayNumber, start.secondsOfDay],
+            [later.dayNumber, later.secondsOfDay]
+        ]);
+
+        restored.setTime(JulianDate.addHours(start, 3, new JulianDate()));
+        restored.sample(0, 10, out);
+        expect(out[0]).toBeCloseTo(5, 10);
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { JulianDate } from "cesium";
+import GRIB2Dataset from "../src/GRIB2";
+import Field from "../src/Field";
+import FieldSeries from "../src/FieldSeries";
+import { GRIB2Fixture, encodeGRIB2 } from "./fixtures/grib2";
+
+// 3 columns from 0°E to 20°E, 2 rows from 10°N to 0°N
+const grid = { nx: 3, ny: 2, la1: 10, lo1: 0, la2: 0, lo2: 20, dx: 10, dy: 10 };
+
+function fixture(parameterNumber: number, values: (number | null)[], options: Partial<GRIB2Fixture> = {}) {
+    return { ...grid, parameterNumber, values, ...options };
+}
+
+function read(fixtures: GRIB2Fixture[]) {
+    return new GRIB2Dataset(encodeGRIB2(fixtures)).read();
+}
+
+describe("GRIB2Dataset", () => {
+    it("decodes simple packing", () => {
+        const field = read([
+            fixture(2, [1.5, -2.25, 3, 0, 4.75, -1], { decimalScale: 2 }),
+            fixture(3, [0, 1, 2, 3, 4, 5])
+        ]) as Field;
+
+        expect(field).toBeInstanceOf(Field);
+        expect(Array.from(field.us)).toEqual([1.5, -2.25, 3, 0, 4.75, -1]);
+        expect(Array.from(field.vs)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(field.extent()).toEqual([0, 0, 20, 10]);
+        expect(field.height).toBe(10);
+    });
+
+    it("leaves points missing from the bitmap out of the mask", () => {
+        const field = read([fixture(2, [1, null, 3, 4, 5, null]), fixture(3, [1, null, 3, 4, 5, null])]) as Field;
+
+        expect(Array.from(field.mask)).toEqual([1, 0, 1, 1, 1, 0]);
+        expect(field.us[2]).toBe(3);
+        expect(field.hasValueAt(10, 10)).toBe(false);
+        expect(field.hasValueAt(0, 10)).toBe(true);
+    });
+
+    it("reorders rows scanned from south to north", () => {
+        const field = read([
+            fixture(2, [1, 2, 3, 4, 5, 6], { scanMode: 0x40, la1: 0, la2: 10 }),
+            fixture(3, [1, 2, 3, 4, 5, 6], { scanMode: 0x40, la1: 0, la2: 10 })
+        ]) as Field;
+
+        expect(Array.from(field.us)).toEqual([4, 5, 6, 1, 2, 3]);
+        expect(field.valueAt(0, 10)!.u).toBe(4);
+    });
+
+    it("decodes complex packing with spatial differencing", () => {
+        const us = [12.3, 11.9, 10.4, 13.8, 15.1, 9.7];
+        const vs = [-4.2, -3.1, 0, 2.5, 1.8, -0.6];
+        const field = read([
+            fixture(2, us, { packing: "complex", decimalScale: 1 }),
+            fixture(3, vs, { packing: "complex", decimalScale: 1 })
+        ]) as Field;
+
+        us.forEach((u, k) => expect(field.us[k]).toBeCloseTo(u, 5));
+        vs.forEach((v, k) => expect(field.vs[k]).toBeCloseTo(v, 5));
+    });
+
+    it("reads several times as a series", () => {
+        const field = read([
+            fixture(2, [1, 1, 1, 1, 1, 1]),
+            fixture(3, [0, 0, 0, 0, 0, 0]),
+            fixture(2, [2, 2, 2, 2, 2, 2], { forecastHours: 3 }),
+            fixture(3, [0, 0, 0, 0, 0, 0], { forecastHours: 3 })
+        ]) as FieldSeries;
+
+        expect(field).toBeInstanceOf(FieldSeries);
+        expect(field.steps.map((step) => JulianDate.toIso8601(step.time, 0))).toEqual([
+            "2024-01-15T06:00:00Z",
+            "2024-01-15T09:00:00Z"
+        ]);
+        expect(field.steps[1].field.us[0]).toBe(2);
+    });
+
+    it("selects the requested level", () => {
+        const buffer = encodeGRIB2([
+            fixture(2, [1, 1, 1, 1, 1, 1]),
+            fixture(3, [1, 1, 1, 1, 1, 1]),
+            fixture(2, [7, 7, 7, 7, 7, 7], { surfaceType: 100, surfaceValue: 85000 }),
+            fixture(3, [7, 7, 7, 7, 7, 7], { surfaceType: 100, surfaceValue: 85000 })
+        ]);
+
+        const field = new GRIB2Dataset(buffer, { surfaceType: 100, surfaceValue: 85000 }).read() as Field;
+
+        expect(field.us[0]).toBe(7);
+        expect(field.height).toBeCloseTo(1457, -1);
+        expect(() => new GRIB2Dataset(buffer, { surfaceType: 100, surfaceValue: 50000 }).read()).toThrow(
+            "no UGRD message at surface 100:50000, available: 103:10, 100:85000"
+        );
+    });
+
+    it("skips messages it cannot read until their field is requested", () => {
+        const fixtures = [
+            // PNG packed temperature, a polar stereographic grid and an aerosol product
+            { ...fixture(0, [1, 1, 1, 1, 1, 1]), templates: { representation: 41 } },
+            { ...fixture(2, [9, 9, 9, 9, 9, 9], { surfaceValue: 80 }), templates: { grid: 20 } },
+            { ...fixture(2, [9, 9, 9, 9, 9, 9]), templates: { product: 40 } },
+            fixture(2, [1, 2, 3, 4, 5, 6]),
+            fixture(3, [6, 5, 4, 3, 2, 1])
+        ];
+
+        const dataset = new GRIB2Dataset(encodeGRIB2(fixtures));
+
+        expect(dataset.unsupportedMessages.map((message) => message.reason)).toEqual([
+            "unsupported GRIB2 data representation template 5.41, only simple and complex packing are supported",
+            "unsupported GRIB2 grid definition template 3.20, only regular lat/lon is supported",
+            "unsupported GRIB2 product definition template 4.40"
+        ]);
+        expect(Array.from((dataset.read() as Field).us)).toEqual([1, 2, 3, 4, 5, 6]);
+
+        expect(() =>
+            read([
+                { ...fixture(2, [1, 1, 1, 1, 1, 1]), templates: { representation: 40 } },
+                fixture(3, [0, 0, 0, 0, 0, 0])
+            ])
+        ).toThrow("unsupported GRIB2 data representation template 5.40");
+        expect(() =>
+            read([
+                fixture(2, [1, 1, 1, 1, 1, 1]),
+                { ...fixture(3, [0, 0, 0, 0, 0, 0]), templates: { representation: 40 } }
+            ])
+        ).toThrow("unsupported GRIB2 data representation template 5.40");
+    });
+
+    it("throws without a GRIB2 message or a u component", () => {
+        expect(() => new GRIB2Dataset(new ArrayBuffer(32))).toThrow("no GRIB2 message found");
+        expect(() => read([fixture(3, [0, 0, 0, 0, 0, 0])])).toThrow("no UGRD message found");
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import GeoTIFFDataset, { GeoTIFFOptions } from "../src/GeoTIFF";
+import { GeoTIFFFixture, encodeGeoTIFF } from "./fixtures/geotiff";
+
+// 3 x 2 pixels of 10°, centered on 0°E to 20°E and 10°N to 0°N
+const raster = {
+    width: 3,
+    height: 2,
+    pixelScale: [10, 10] as [number, number],
+    tiepoint: [-5, 15] as [number, number]
+};
+
+const us = [1.5, -2, 3.25, 0, 4, -1];
+const vs = [0, 1, 2, 3, 4, 5];
+
+function read(fixture: Partial<GeoTIFFFixture>, options?: GeoTIFFOptions) {
+    return new GeoTIFFDataset(encodeGeoTIFF({ ...raster, bands: [us, vs], ...fixture }), options).read();
+}
+
+describe("GeoTIFFDataset", () => {
+    it("reads float32 u/v bands", async () => {
+        const field = await read({});
+
+        expect(Array.from(field.us)).toEqual(us);
+        expect(Array.from(field.vs)).toEqual(vs);
+        expect(field.extent()).toEqual([0, 0, 20, 10]);
+        expect(field.valueAt(20, 10)!.u).toBe(3.25);
+    });
+
+    it("reads big endian deflated int16 with a horizontal predictor", async () => {
+        const field = await read({
+            littleEndian: false,
+            format: "int16",
+            compression: "deflate",
+            predictor: true,
+            bands: [
+                [10, -20, 300, 4, 5, -6],
+                [-1, 2, -3, 4, -5, 6]
+            ]
+        });
+
+        expect(Array.from(field.us)).toEqual([10, -20, 300, 4, 5, -6]);
+        expect(Array.from(field.vs)).toEqual([-1, 2, -3, 4, -5, 6]);
+    });
+
+    it("leaves GDAL_NODATA pixels out of the mask", async () => {
+        const field = await read({
+            noData: "-9999",
+            bands: [
+                [1, -9999, 3, 4, 5, 6],
+                [1, 2, 3, 4, 5, -9999]
+            ]
+        });
+
+        expect(Array.from(field.mask)).toEqual([1, 0, 1, 1, 1, 0]);
+        expect(field.hasValueAt(10, 10)).toBe(false);
+    });
+
+    it("converts speed and direction, from where the wind comes by default", async () => {
+        const bands = [
+            [10, 10, 10, 10, 10, 10],
+            [90, 180, 0, 270, 0, 0]
+        ];
+
+        const from = await read({ bands }, { layout: "speedDirection" });
+
+        expect(from.us[0]).toBeCloseTo(-10, 5);
+        expect(from.vs[0]).toBeCloseTo(0, 5);
+        expect(from.vs[1]).toBeCloseTo(10, 5);
+
+        const to = await read({ bands }, { layout: "speedDirection", directionConvention: "to" });
+
+        expect(to.us[0]).toBeCloseTo(10, 5);
+        expect(to.vs[2]).toBeCloseTo(10, 5);
+    });
+
+    it("flips south-up rasters", async () => {
+        const field = await read({ transformation: [10, 0, 0, -5, 0, 10, 0, -5, 0, 0, 0, 0, 0, 0, 0, 1] });
+
+        expect(field.extent()).toEqual([0, 0, 20, 10]);
+        expect(Array.from(field.us)).toEqual([0, 4, -1, 1.5, -2, 3.25]);
+    });
+
+    it("uses the tiepoint as the first pixel center for pixel-is-point rasters", async () => {
+        const field = await read({ pixelIsPoint: true, tiepoint: [0, 10] });
+
+        expect(field.extent()).toEqual([0, 0, 20, 10]);
+    });
+
+    it("throws on files it cannot read", async () => {
+        expect(() => new GeoTIFFDataset(new ArrayBuffer(8))).toThrow("not a TIFF file");
+        await expect(read({ epsg: 3857 })).rejects.toThrow("unsupported geographic GeoTIFF (EPSG:3857)");
+        await expect(read({}, { bands: [0, 2] })).rejects.toThrow("bands 0, 2 not found");
+    });
+});
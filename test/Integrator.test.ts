@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { IntegratorMethod, Velocity, integrate, toDegrees, wrapLongitude } from "../src/Integrator";
+
+const methods: IntegratorMethod[] = ["euler", "rk2", "rk4"];
+
+describe("toDegrees", () => {
+    it("stretches longitudes by 1 / cos(latitude)", () => {
+        const out = new Float64Array(2);
+
+        toDegrees(1, 2, 0, 0.5, out);
+        expect(Array.from(out)).toEqual([0.5, 1]);
+
+        toDegrees(1, 2, 60, 0.5, out);
+        expect(out[0]).toBeCloseTo(1, 10);
+        expect(out[1]).toBe(1);
+
+        // clamped at the poles
+        toDegrees(1, 0, 90, 1, out);
+        expect(out[0]).toBeCloseTo(100, 10);
+    });
+});
+
+describe("wrapLongitude", () => {
+    it("brings longitudes into [-180, 180)", () => {
+        expect(wrapLongitude(0)).toBe(0);
+        expect(wrapLongitude(180)).toBe(-180);
+        expect(wrapLongitude(190)).toBe(-170);
+        expect(wrapLongitude(-181)).toBe(179);
+        expect(wrapLongitude(540)).toBe(-180);
+    });
+});
+
+describe("integrate", () => {
+    const out = new Float64Array(2);
+
+    it("moves by the velocity of a uniform field with every method", () => {
+        const uniform: Velocity = (lon, lat, displacement) => {
+            displacement[0] = 1;
+            displacement[1] = 2;
+            return true;
+        };
+
+        methods.forEach((method) => {
+            expect(integrate(method, 10, 20, uniform, out)).toBe(true);
+            expect(Array.from(out)).toEqual([11, 22]);
+        });
+    });
+
+    it("follows a shear exactly from the second order", () => {
+        // the eastward step grows with the latitude: lon = lat² / 2
+        const shear: Velocity = (lon, lat, displacement) => {
+            displacement[0] = lat;
+            displacement[1] = 1;
+            return true;
+        };
+
+        integrate("euler", 0, 0, shear, out);
+        expect(out[0]).toBe(0);
+
+        integrate("rk2", 0, 0, shear, out);
+        expect(out[0]).toBeCloseTo(0.5, 10);
+
+        integrate("rk4", 0, 0, shear, out);
+        expect(out[0]).toBeCloseTo(0.5, 10);
+        expect(out[1]).toBeCloseTo(1, 10);
+    });
+
+    it("gets closer to a rotation with higher orders", () => {
+        const rotation: Velocity = (lon, lat, displacement) => {
+            displacement[0] = -lat / 10;
+            displacement[1] = lon / 10;
+            return true;
+        };
+
+        const errors = methods.map((method) => {
+            integrate(method, 10, 0, rotation, out);
+
+            return Math.hypot(out[0] - 10 * Math.cos(0.1), out[1] - 10 * Math.sin(0.1));
+        });
+
+        expect(errors[1]).toBeLessThan(errors[0]);
+        expect(errors[2]).toBeLessThan(errors[1]);
+        expect(errors[2]).toBeLessThan(1e-6);
+    });
+
+    it("samples wrapped longitudes and stops where there is no data", () => {
+        const longitudes: number[] = [];
+        const eastward: Velocity = (lon, lat, displacement) => {
+            longitudes.push(lon);
+            displacement[0] = 1;
+            displacement[1] = 0;
+            return lon < 0;
+        };
+
+        expect(integrate("rk2", 179.5, 0, eastward, out, new Float64Array([1, 0]))).toBe(true);
+        expect(longitudes).toEqual([-180]);
+        expect(out[0]).toBe(180.5);
+
+        expect(integrate("rk4", 170, 0, eastward, out)).toBe(false);
+    });
+
+    it("stops beyond the poles", () => {
+        const northward: Velocity = (lon, lat, displacement) => {
+            displacement[0] = 0;
+            displacement[1] = 1.5;
+            return true;
+        };
+
+        // the midpoint is still on the globe, the end of the rk4 step is not
+        expect(integrate("rk2", 0, 89, northward, out)).toBe(true);
+        expect(integrate("rk4", 0, 89, northward, out)).toBe(false);
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import { JulianDate } from "cesium";
+import NetCDFDataset, { cfTimeToJulianDate } from "../src/NetCDF";
+import Field from "../src/Field";
+import FieldSeries from "../src/FieldSeries";
+import { encodeNetCDF } from "./fixtures/netcdf";
+
+// the ERA5 10 m wind of the demo, 0.5° global grid
+function windBuffer() {
+    const file = readFileSync(new URL("../wind.nc", import.meta.url));
+
+    return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+describe("NetCDFDataset", () => {
+    it("reads the u10/v10 variables of a global grid", () => {
+        const field = new NetCDFDataset(windBuffer()).read() as Field;
+
+        expect(field).toBeInstanceOf(Field);
+        expect([field.cols, field.rows]).toEqual([720, 361]);
+        expect(field.extent()).toEqual([0, -90, 359.5, 90]);
+        expect(field.isContinuous).toBe(true);
+        expect(field.height).toBe(10);
+        expect(field.range[1]).toBeCloseTo(28.59, 2);
+    });
+
+    // 3 times of a 3 x 2 grid with ascending latitudes, u is 10 times the hour plus the column
+    function threeTimes() {
+        const times = [6, 0, 3];
+        const us = times.flatMap((hour) => [0, 1, 2, 0, 1, 2].map((i) => 10 * hour + i));
+
+        return encodeNetCDF({ time: 3, lat: 2, lon: 3 }, [
+            {
+                name: "time",
+                dimensions: ["time"],
+                type: "double",
+                values: times,
+                attributes: { units: "hours since 2024-01-01" }
+            },
+            { name: "lat", dimensions: ["lat"], values: [0, 10] },
+            { name: "lon", dimensions: ["lon"], values: [100, 110, 120] },
+            { name: "u", dimensions: ["time", "lat", "lon"], values: us },
+            { name: "v", dimensions: ["time", "lat", "lon"], values: new Array(18).fill(0) }
+        ]);
+    }
+
+    it("reads all times into a series", () => {
+        const series = new NetCDFDataset(threeTimes()).read() as FieldSeries;
+
+        expect(series).toBeInstanceOf(FieldSeries);
+        expect(series.steps.map((step) => JulianDate.toIso8601(step.time, 0))).toEqual([
+            "2024-01-01T00:00:00Z",
+            "2024-01-01T03:00:00Z",
+            "2024-01-01T06:00:00Z"
+        ]);
+        expect(series.steps.map((step) => step.field.valueAt(110, 10)!.u)).toEqual([1, 31, 61]);
+
+        series.setTime(JulianDate.fromIso8601("2024-01-01T04:30:00Z"));
+        expect(series.interpolatedValueAt(120, 0)!.u).toBeCloseTo(47, 4);
+    });
+
+    it("reads one time of a series", () => {
+        const field = new NetCDFDataset(threeTimes(), { timeIndex: 2 }).read() as Field;
+
+        expect(field).toBeInstanceOf(Field);
+        expect(field.valueAt(100, 0)!.u).toBe(30);
+        expect(() => new NetCDFDataset(threeTimes(), { timeIndex: 3 }).read()).toThrow(
+            "timeIndex 3 out of range [0, 2]"
+        );
+    });
+
+    it("lists the available variables when a configured one is missing", () => {
+        expect(() => new NetCDFDataset(windBuffer(), { uName: "uo" }).read()).toThrow(
+            "NetCDF u variable 'uo' not found, available variables: time(), step()"
+        );
+    });
+});
+
+describe("cfTimeToJulianDate", () => {
+    it("converts CF time values", () => {
+        const time = cfTimeToJulianDate(36, "hours since 2024-01-01 06:00:00");
+
+        expect(JulianDate.toIso8601(time, 0)).toBe("2024-01-02T18:00:00Z");
+        expect(JulianDate.toIso8601(cfTimeToJulianDate(1.5, "days since 2024-01-01"), 0)).toBe("2024-01-02T12:00:00Z");
+    });
+
+    it("throws on invalid units", () => {
+        expect(() => cfTimeToJulianDate(0, "hours")).toThrow("invalid time units: hours");
+        expect(() => cfTimeToJulianDate(0, "fortnights since 2024-01-01")).toThrow("unsupported time unit: fortnights");
+    });
+});
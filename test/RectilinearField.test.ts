@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import RectilinearField from "../src/RectilinearField";
+
+// u is the column index plus 10 times the row index
+function grid(lons: number[], lats: number[]) {
+    const us = lats.flatMap((_, j) => lons.map((_, i) => i + 10 * j));
+
+    return new RectilinearField({ lons, lats, us, vs: new Array(us.length).fill(0) });
+}
+
+// latitudes of a T2 Gaussian grid, rounded
+const gaussian = [70.0, 33.6, 0, -33.6, -70.0];
+
+describe("RectilinearField", () => {
+    const out = new Float64Array(3);
+    const indexes = new Float64Array(2);
+
+    it("interpolates between irregular Gaussian latitudes", () => {
+        const field = grid([0, 10, 20], gaussian);
+
+        field.decimalIndexesInto(10, 51.8, indexes);
+        expect(indexes[0]).toBeCloseTo(1, 10);
+        expect(indexes[1]).toBeCloseTo(0.5, 10);
+
+        expect(field.sample(10, 16.8, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(16, 10);
+        expect(field.latitudeAtY(3)).toBe(-33.6);
+        expect(field.contains(10, 75)).toBe(false);
+    });
+
+    it("finds the same points in ascending and descending latitudes", () => {
+        const descending = grid([0, 10, 20], gaussian);
+        const ascending = grid([0, 10, 20], gaussian.slice().reverse());
+
+        expect([descending.ymin, descending.ymax]).toEqual([-70, 70]);
+        expect([ascending.ymin, ascending.ymax]).toEqual([-70, 70]);
+
+        descending.decimalIndexesInto(5, -50, indexes);
+        expect(indexes[1]).toBeCloseTo(3 + 16.4 / 36.4, 10);
+
+        ascending.decimalIndexesInto(5, -50, indexes);
+        expect(indexes[1]).toBeCloseTo(1 - 16.4 / 36.4, 10);
+
+        // u grows with the row, rows run the other way
+        descending.sample(5, -33.6, out);
+        expect(out[0]).toBeCloseTo(30.5, 10);
+        ascending.sample(5, -33.6, out);
+        expect(out[0]).toBeCloseTo(10.5, 10);
+    });
+
+    it("interpolates across the gap between the last and the first column of global grids", () => {
+        const global = grid([0, 45, 90, 135, 180, 225, 270, 315], [10, 0]);
+
+        expect(global.isContinuous).toBe(true);
+        expect(global.columnIndex(-22.5)).toBeCloseTo(7.5, 10);
+        expect(global.columnIndex(-45)).toBe(7);
+        expect(global.contains(-1, 5)).toBe(true);
+
+        // halfway between column 7 and column 0
+        global.sample(-22.5, 10, out);
+        expect(out[0]).toBeCloseTo(3.5, 10);
+        expect(global.longitudeAtX(7)).toBe(-45);
+    });
+
+    it("has no column past the last one of regional grids", () => {
+        const regional = grid([0, 45, 90], [10, 0]);
+
+        expect(regional.isContinuous).toBe(false);
+        expect(regional.columnIndex(120)).toBe(-1);
+        expect(regional.columnIndex(60)).toBeCloseTo(4 / 3, 10);
+        expect(regional.contains(-10, 5)).toBe(false);
+    });
+});
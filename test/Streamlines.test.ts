@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { Cartographic } from "cesium";
+import Field from "../src/Field";
+import { Streamline, computeStreamlines, streamlinesToGeoJSON, streamlinesToPolylines } from "../src/Streamlines";
+
+// 10 m/s eastward wind over 0°E to 40°E, 0°N to 20°N
+const eastward = new Field({
+    xmin: 0,
+    xmax: 40,
+    ymin: 0,
+    ymax: 20,
+    deltaX: 10,
+    deltaY: 10,
+    cols: 5,
+    rows: 3,
+    us: new Array(15).fill(10),
+    vs: new Array(15).fill(0)
+});
+
+// length in degrees of latitude, the longitude steps shrunk by cos(latitude)
+function lengthOf(line: Streamline) {
+    let length = 0;
+
+    for (let k = 1; k < line.coordinates.length; k++) {
+        const [lon0, lat0] = line.coordinates[k - 1];
+        const [lon1, lat1] = line.coordinates[k];
+        const dx = (lon1 - lon0) * Math.cos((((lat0 + lat1) / 2) * Math.PI) / 180);
+
+        length += Math.sqrt(dx * dx + (lat1 - lat0) * (lat1 - lat0));
+    }
+
+    return length;
+}
+
+describe("computeStreamlines", () => {
+    it("spaces the streamlines by the separation", () => {
+        const lines = computeStreamlines(eastward, { separation: 2 });
+        const latitudes = lines.map((line) => line.coordinates[0][1]).sort((a, b) => a - b);
+
+        expect(lines.length).toBe(10);
+
+        lines.forEach((line) => {
+            // parallels in an eastward wind
+            line.coordinates.forEach((point) => expect(point[1]).toBeCloseTo(line.coordinates[0][1], 6));
+            expect(line.speeds.every((speed) => Math.abs(speed - 10) < 1e-6)).toBe(true);
+        });
+
+        for (let k = 1; k < latitudes.length; k++) {
+            expect(latitudes[k] - latitudes[k - 1]).toBeCloseTo(2, 6);
+        }
+    });
+
+    it("keeps the streamlines apart by the test distance", () => {
+        const lines = computeStreamlines(eastward, { separation: 4, testRatio: 0.5 });
+
+        expect(lines.length).toBeGreaterThan(1);
+
+        for (let a = 0; a < lines.length; a++) {
+            for (let b = a + 1; b < lines.length; b++) {
+                lines[a].coordinates.forEach(([lon0, lat0]) => {
+                    lines[b].coordinates.forEach(([lon1, lat1]) => {
+                        expect(Math.hypot(lon1 - lon0, lat1 - lat0)).toBeGreaterThanOrEqual(2 - 1e-6);
+                    });
+                });
+            }
+        }
+    });
+
+    it("cuts the streamlines at the maximum length", () => {
+        const lines = computeStreamlines(eastward, { separation: 2, step: 0.5, maxLength: 10 });
+
+        expect(lines.length).toBeGreaterThan(0);
+
+        lines.forEach((line) => {
+            expect(line.coordinates.length).toBeLessThanOrEqual(10 / 0.5 + 1);
+            expect(lengthOf(line)).toBeLessThanOrEqual(10 + 1e-6);
+        });
+
+        const full = computeStreamlines(eastward, { separation: 2, step: 0.5 });
+
+        expect(Math.max(...full.map(lengthOf))).toBeGreaterThan(30);
+    });
+});
+
+describe("streamline export", () => {
+    // Cesium materials check their uniforms against the DOM image classes
+    beforeAll(() => {
+        vi.stubGlobal("HTMLCanvasElement", class {});
+        vi.stubGlobal("HTMLImageElement", class {});
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const line: Streamline = {
+        coordinates: [
+            [0, 0],
+            [1, 0],
+            [2, 1],
+            [3, 1]
+        ],
+        speeds: [1, 2, 9, 10]
+    };
+
+    it("exports GeoJSON line strings with their speeds", () => {
+        const geojson = streamlinesToGeoJSON([line]);
+
+        expect(geojson.type).toBe("FeatureCollection");
+        expect(geojson.features).toHaveLength(1);
+        expect(geojson.features[0].geometry).toEqual({ type: "LineString", coordinates: line.coordinates });
+        expect(geojson.features[0].geometry.coordinates[0]).not.toBe(line.coordinates[0]);
+        expect(geojson.features[0].properties).toEqual({ speeds: [1, 2, 9, 10], meanSpeed: 5.5, maxSpeed: 10 });
+    });
+
+    it("splits polylines where their color changes", () => {
+        const collection = streamlinesToPolylines([line], { colorScale: ["#000", "#fff"], width: 3 });
+
+        expect(collection.length).toBe(2);
+
+        const pieces = [collection.get(0), collection.get(1)].map((polyline) =>
+            polyline.positions.map((position) => {
+                const cartographic = Cartographic.fromCartesian(position);
+
+                return [
+                    Math.round((cartographic.longitude * 180) / Math.PI),
+                    Math.round((cartographic.latitude * 180) / Math.PI)
+                ];
+            })
+        );
+
+        // the pieces share the point where the color changes
+        expect(pieces).toEqual([
+            [
+                [0, 0],
+                [1, 0],
+                [2, 1]
+            ],
+            [
+                [2, 1],
+                [3, 1]
+            ]
+        ]);
+        expect(collection.get(0).width).toBe(3);
+        expect(collection.get(0).material.uniforms.color.toCssHexString()).toBe("#000000");
+        expect(collection.get(1).material.uniforms.color.toCssHexString()).toBe("#ffffff");
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { beaufortForce, formatSpeed, pressureToHeight } from "../src/Units";
+
+describe("beaufortForce", () => {
+    it("starts each force at its lower limit", () => {
+        expect(beaufortForce(0)).toBe(0);
+        expect(beaufortForce(0.49)).toBe(0);
+        expect(beaufortForce(0.5)).toBe(1);
+        expect(beaufortForce(10.8)).toBe(6);
+        expect(beaufortForce(32.6)).toBe(11);
+        expect(beaufortForce(60)).toBe(12);
+    });
+});
+
+describe("formatSpeed", () => {
+    it("converts m/s into the unit", () => {
+        expect(formatSpeed(10, "m/s")).toBe("10.0 m/s");
+        expect(formatSpeed(10, "knots")).toBe("19.4 knots");
+        expect(formatSpeed(10, "km/h")).toBe("36.0 km/h");
+        expect(formatSpeed(10, "beaufort")).toBe("Beaufort 5");
+    });
+});
+
+describe("pressureToHeight", () => {
+    it("gives the heights of the standard atmosphere", () => {
+        expect(pressureToHeight(1013.25)).toBeCloseTo(0, 6);
+        expect(pressureToHeight(850)).toBeCloseTo(1457, 0);
+        expect(pressureToHeight(500)).toBeCloseTo(5574, 0);
+        expect(pressureToHeight(100)).toBeCloseTo(16180, 0);
+    });
+
+    it("is continuous at the tropopause", () => {
+        expect(pressureToHeight(226.3211)).toBeCloseTo(11000, 0);
+        expect(pressureToHeight(226.3209)).toBeCloseTo(11000, 0);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import Field from "../src/Field";
+import ScalarField from "../src/ScalarField";
+import VolumeField from "../src/VolumeField";
+import { pressureToHeight } from "../src/Units";
+
+const cell = { xmin: 0, xmax: 10, ymin: 0, ymax: 10, deltaX: 10, deltaY: 10, cols: 2, rows: 2 };
+
+// uniform u on a 10° cell, the south-east corner missing if masked
+function level(u: number, masked = false) {
+    return new Field({
+        ...cell,
+        us: [u, u, u, masked ? null : u],
+        vs: [0, 0, 0, masked ? null : 0]
+    });
+}
+
+function upward(w: number) {
+    return new ScalarField({ ...cell, values: [w, w, w, w] });
+}
+
+describe("VolumeField", () => {
+    const out = new Float64Array(4);
+
+    // u of 10 at 1000 m, 20 at 3000 m and 40 at 5000 m, w of 1 at 3000 m
+    const volume = new VolumeField([
+        { field: level(40), height: 5000 },
+        { field: level(10), height: 1000 },
+        { field: level(20), height: 3000, w: upward(1) }
+    ]);
+
+    it("stacks the levels from the lowest up", () => {
+        expect(volume.heights).toEqual([1000, 3000, 5000]);
+        expect([volume.bottom, volume.top]).toEqual([1000, 5000]);
+        expect(volume.range).toEqual([10, 40]);
+    });
+
+    it("interpolates linearly between the levels", () => {
+        expect(volume.sample3(5, 5, 2000, out)).toBe(true);
+        expect(out[0]).toBeCloseTo(15, 10);
+        expect(out[2]).toBeCloseTo(15, 10);
+        expect(out[3]).toBeCloseTo(0.5, 10);
+
+        volume.sample3(5, 5, 4500, out);
+        expect(out[0]).toBeCloseTo(35, 10);
+        expect(out[3]).toBeCloseTo(0.25, 10);
+
+        volume.sample3(5, 5, 3000, out);
+        expect(out[0]).toBeCloseTo(20, 10);
+        expect(out[3]).toBeCloseTo(1, 10);
+    });
+
+    it("clamps heights below and above the levels", () => {
+        volume.sample3(5, 5, 0, out);
+        expect(out[0]).toBe(10);
+        expect(out[3]).toBe(0);
+
+        volume.sample3(5, 5, 9000, out);
+        expect(out[0]).toBe(40);
+    });
+
+    it("takes the other level where one misses the position", () => {
+        const gappy = new VolumeField([
+            { field: level(10, true), height: 0 },
+            { field: level(20), height: 1000 },
+            { field: level(30, true), height: 2000 }
+        ]);
+
+        // the south-east corner, only in the middle level
+        expect(gappy.sample3(10, 0, 500, out)).toBe(true);
+        expect(out[0]).toBe(20);
+        expect(gappy.sample3(10, 0, 1500, out)).toBe(true);
+        expect(out[0]).toBe(20);
+        expect(gappy.sample3(10, 0, 0, out)).toBe(false);
+        expect(gappy.sample3(20, 0, 500, out)).toBe(false);
+    });
+
+    it("samples the slice at its height", () => {
+        const sample = new Float64Array(3);
+        const slice = new VolumeField([
+            { field: level(10), height: 1000 },
+            { field: level(20), height: 3000 }
+        ]);
+
+        slice.sample(5, 5, sample);
+        expect(sample[0]).toBe(10);
+
+        slice.height = 1500;
+        slice.sample(5, 5, sample);
+        expect(sample[0]).toBeCloseTo(12.5, 10);
+    });
+
+    it("places levels by pressure or by the height of their field", () => {
+        const field = level(10);
+
+        field.height = 10;
+
+        const pressure = new VolumeField([{ field: level(20), pressure: 850 }, { field: field }]);
+
+        expect(pressure.heights).toEqual([10, pressureToHeight(850)]);
+        expect(() => new VolumeField([{ field: level(1) }])).toThrow("level 0 has no height, pressure or field height");
+        expect(() => new VolumeField([])).toThrow("at least one level is required");
+    });
+});
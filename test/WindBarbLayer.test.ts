@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import Field from "../src/Field";
+import WindBarbLayer from "../src/WindBarbLayer";
+
+interface Path {
+    paint: "stroke" | "fill";
+    points: [number, number][];
+    arcs: number;
+}
+
+// records the paths painted by a symbol
+function recorder() {
+    const paths: Path[] = [];
+    let points: [number, number][] = [];
+    let arcs = 0;
+
+    const ctx = {
+        beginPath: () => {
+            points = [];
+            arcs = 0;
+        },
+        moveTo: (x: number, y: number) => points.push([x, y]),
+        lineTo: (x: number, y: number) => points.push([x, y]),
+        arc: () => arcs++,
+        closePath: () => {},
+        stroke: () => paths.push({ paint: "stroke", points, arcs }),
+        fill: () => paths.push({ paint: "fill", points, arcs })
+    };
+
+    return { ctx: ctx as unknown as CanvasRenderingContext2D, paths };
+}
+
+const field = new Field({
+    xmin: 0,
+    xmax: 10,
+    ymin: 0,
+    ymax: 10,
+    deltaX: 10,
+    deltaY: 10,
+    cols: 2,
+    rows: 2,
+    us: [1, 1, 1, 1],
+    vs: [0, 0, 0, 0]
+});
+
+// staff of 20 pixels pointing up from (0, 0): feathers of 8 pixels every 3 pixels from the top
+function barb(knots: number, southern = false) {
+    const { ctx, paths } = recorder();
+
+    new WindBarbLayer(field).drawBarb(ctx, 0, 0, 0, -1, knots, 20, southern);
+
+    // feathers by kind, with their distance from the end of the staff and their length across it
+    return paths.slice(1).map((path) => {
+        const [start, end] = path.points;
+
+        return {
+            kind: path.paint === "fill" ? "pennant" : Math.abs(end[0] - start[0]) > 6 ? "barb" : "half",
+            offset: Math.round(start[1] + 20),
+            side: Math.sign(end[0] - start[0])
+        };
+    });
+}
+
+describe("drawBarb", () => {
+    it("draws a circle for calm winds", () => {
+        const { ctx, paths } = recorder();
+
+        new WindBarbLayer(field).drawBarb(ctx, 0, 0, 0, -1, 2, 20, false);
+
+        expect(paths).toHaveLength(1);
+        expect(paths[0].arcs).toBe(1);
+    });
+
+    it("breaks speeds into pennants, barbs and half barbs", () => {
+        const kinds = (knots: number) => barb(knots).map((feather) => feather.kind);
+
+        expect(kinds(10)).toEqual(["barb"]);
+        expect(kinds(25)).toEqual(["barb", "barb", "half"]);
+        expect(kinds(47)).toEqual(["barb", "barb", "barb", "barb", "half"]);
+        expect(kinds(65)).toEqual(["pennant", "barb", "half"]);
+        expect(kinds(103)).toEqual(["pennant", "pennant", "half"]);
+    });
+
+    it("sets a lone half barb back from the end of the staff", () => {
+        expect(barb(5)).toEqual([{ kind: "half", offset: 3, side: 1 }]);
+        expect(barb(15).map((feather) => feather.offset)).toEqual([0, 3]);
+    });
+
+    it("draws the feathers on the other side in the southern hemisphere", () => {
+        expect(barb(20).map((feather) => feather.side)).toEqual([1, 1]);
+        expect(barb(20, true).map((feather) => feather.side)).toEqual([-1, -1]);
+    });
+});
+
+describe("setOptions", () => {
+    it("rebuilds the colors only when the color changes", () => {
+        const layer = new WindBarbLayer(field, { color: "#fff", size: 20 });
+        const colorScale = layer.colorScale;
+
+        layer.setOptions({ size: 30 });
+        expect(layer.colorScale).toBe(colorScale);
+
+        layer.setOptions({ color: ["#000", "#f00"] });
+        expect(layer.options).toEqual({ color: ["#000", "#f00"], size: 30 });
+        expect(layer.colorScale.colors).toEqual(["#000", "#f00"]);
+    });
+
+    it("keeps the options when a color is invalid", () => {
+        const layer = new WindBarbLayer(field, { color: "#fff" });
+
+        expect(() => layer.setOptions({ color: [{ value: 0, color: "red" }], size: 30 })).toThrow("unsupported color");
+        expect(layer.options).toEqual({ color: "#fff" });
+        expect(layer.colorScale.colors).toEqual(["#fff"]);
+    });
+});
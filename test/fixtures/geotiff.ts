@@ -0,0 +1,182 @@
+import { deflateSync } from "zlib";
+
+/**
+ * Encoder of small single-strip GeoTIFF files, the fixtures of the decoder tests.
+ * Samples are pixel interleaved, as float32 or as int16 with an optional horizontal predictor.
+ */
+
+export interface GeoTIFFFixture {
+    width: number;
+    height: number;
+    // one row-major array per band
+    bands: number[][];
+    littleEndian?: boolean;
+    format?: "float32" | "int16";
+    compression?: "none" | "deflate";
+    // horizontal differencing, int16 only
+    predictor?: boolean;
+    // [scaleX, scaleY] with the tiepoint of the upper left corner of the first pixel
+    pixelScale?: [number, number];
+    tiepoint?: [number, number];
+    // the 16 values of ModelTransformation, instead of pixelScale and tiepoint
+    transformation?: number[];
+    pixelIsPoint?: boolean;
+    epsg?: number;
+    noData?: string;
+}
+
+interface Entry {
+    tag: number;
+    type: number;
+    values: number[] | string;
+}
+
+// size in bytes of the field types used here: ascii, short, long, double
+const typeSizes: { [type: number]: number } = { 2: 1, 3: 2, 4: 4, 12: 8 };
+
+function samples(fixture: GeoTIFFFixture) {
+    const count = fixture.width * fixture.height;
+    const bandCount = fixture.bands.length;
+    const int16 = fixture.format === "int16";
+    const size = int16 ? 2 : 4;
+    const le = fixture.littleEndian ?? true;
+    const values: number[] = [];
+
+    for (let p = 0; p < count; p++) {
+        fixture.bands.forEach((band) => values.push(band[p]));
+    }
+
+    if (fixture.predictor) {
+        const rowLength = fixture.width * bandCount;
+
+        for (let row = 0; row < fixture.height; row++) {
+            for (let i = rowLength - 1; i >= bandCount; i--) {
+                const o = row * rowLength + i;
+
+                values[o] = values[o] - values[o - bandCount];
+            }
+        }
+    }
+
+    const view = new DataView(new ArrayBuffer(values.length * size));
+
+    values.forEach((value, i) => {
+        if (int16) {
+            view.setInt16(i * size, value, le);
+        } else {
+            view.setFloat32(i * size, value, le);
+        }
+    });
+
+    const bytes = new Uint8Array(view.buffer);
+
+    return fixture.compression === "deflate" ? new Uint8Array(deflateSync(bytes)) : bytes;
+}
+
+/**
+ * GeoTIFF file of a fixture
+ * @param fixture
+ */
+export function encodeGeoTIFF(fixture: GeoTIFFFixture) {
+    const le = fixture.littleEndian ?? true;
+    const int16 = fixture.format === "int16";
+    const bandCount = fixture.bands.length;
+    const data = samples(fixture);
+
+    const geoKeys = [1, 1, 0, 2, 1025, 0, 1, fixture.pixelIsPoint ? 2 : 1, 2048, 0, 1, fixture.epsg ?? 4326];
+
+    const entries: Entry[] = [
+        { tag: 256, type: 4, values: [fixture.width] },
+        { tag: 257, type: 4, values: [fixture.height] },
+        { tag: 258, type: 3, values: new Array(bandCount).fill(int16 ? 16 : 32) },
+        { tag: 259, type: 3, values: [fixture.compression === "deflate" ? 8 : 1] },
+        // the strip offset is set once the layout is known
+        { tag: 273, type: 4, values: [0] },
+        { tag: 277, type: 3, values: [bandCount] },
+        { tag: 278, type: 4, values: [fixture.height] },
+        { tag: 279, type: 4, values: [data.length] },
+        { tag: 284, type: 3, values: [1] },
+        { tag: 317, type: 3, values: [fixture.predictor ? 2 : 1] },
+        { tag: 339, type: 3, values: new Array(bandCount).fill(int16 ? 2 : 3) },
+        { tag: 34735, type: 3, values: geoKeys }
+    ];
+
+    if (fixture.transformation) {
+        entries.push({ tag: 34264, type: 12, values: fixture.transformation });
+    } else {
+        const [scaleX, scaleY] = fixture.pixelScale ?? [1, 1];
+        const [x, y] = fixture.tiepoint ?? [0, 0];
+
+        entries.push({ tag: 33550, type: 12, values: [scaleX, scaleY, 0] });
+        entries.push({ tag: 33922, type: 12, values: [0, 0, 0, x, y, 0] });
+    }
+
+    if (fixture.noData !== undefined) {
+        entries.push({ tag: 42113, type: 2, values: fixture.noData });
+    }
+
+    entries.sort((a, b) => a.tag - b.tag);
+
+    const sizeOf = (entry: Entry) => typeSizes[entry.type] * (entry.values.length + (entry.type === 2 ? 1 : 0));
+
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const extraSize = entries.reduce((total, entry) => total + (sizeOf(entry) > 4 ? sizeOf(entry) : 0), 0);
+    const dataOffset = 8 + ifdSize + extraSize;
+
+    entries.find((entry) => entry.tag === 273)!.values = [dataOffset];
+
+    const buffer = new ArrayBuffer(dataOffset + data.length);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    bytes[0] = bytes[1] = le ? 0x49 : 0x4d;
+    view.setUint16(2, 42, le);
+    view.setUint32(4, 8, le);
+    view.setUint16(8, entries.length, le);
+
+    let extra = 8 + ifdSize;
+
+    entries.forEach((entry, i) => {
+        const o = 10 + i * 12;
+        const size = sizeOf(entry);
+        const count = entry.type === 2 ? entry.values.length + 1 : entry.values.length;
+        let valueOffset = o + 8;
+
+        view.setUint16(o, entry.tag, le);
+        view.setUint16(o + 2, entry.type, le);
+        view.setUint32(o + 4, count, le);
+
+        if (size > 4) {
+            view.setUint32(o + 8, extra, le);
+            valueOffset = extra;
+            extra += size;
+        }
+
+        if (typeof entry.values === "string") {
+            for (let k = 0; k < entry.values.length; k++) {
+                bytes[valueOffset + k] = entry.values.charCodeAt(k);
+            }
+
+            return;
+        }
+
+        entry.values.forEach((value, k) => {
+            switch (entry.type) {
+                case 3:
+                    view.setUint16(valueOffset + k * 2, value, le);
+                    break;
+                case 4:
+                    view.setUint32(valueOffset + k * 4, value, le);
+                    break;
+                case 12:
+                    view.setFloat64(valueOffset + k * 8, value, le);
+                    break;
+            }
+        });
+    });
+
+    view.setUint32(10 + entries.length * 12, 0, le);
+    bytes.set(data, dataOffset);
+
+    return buffer;
+}
@@ -0,0 +1,253 @@
+/**
+ * Encoder of small GRIB2 messages on regular lat/lon grids, the fixtures of the decoder tests.
+ * Values are written with simple packing (template 5.0) or with complex packing and first order
+ * spatial differencing (template 5.3), missing values through a bitmap.
+ */
+
+export interface GRIB2Fixture {
+    // 2 for u, 3 for v (category 2, momentum)
+    parameterNumber: number;
+    nx: number;
+    ny: number;
+    // degrees
+    la1: number;
+    lo1: number;
+    la2: number;
+    lo2: number;
+    dx: number;
+    dy: number;
+    scanMode?: number;
+    // values in the scanning order of the grid, null for missing points
+    values: (number | null)[];
+    // values are packed as integers times 10^decimalScale
+    decimalScale?: number;
+    packing?: "simple" | "complex";
+    surfaceType?: number;
+    surfaceValue?: number;
+    forecastHours?: number;
+    // template numbers written instead of the real ones, to build messages the decoder cannot read
+    templates?: { grid?: number; product?: number; representation?: number };
+}
+
+class BitWriter {
+    bytes: number[] = [];
+    private _bits = 0;
+
+    write(value: number, bits: number) {
+        for (let i = bits - 1; i >= 0; i--) {
+            const bit = Math.floor(value / Math.pow(2, i)) % 2;
+
+            if (this._bits % 8 === 0) {
+                this.bytes.push(0);
+            }
+
+            this.bytes[this.bytes.length - 1] |= bit << (7 - (this._bits % 8));
+            this._bits++;
+        }
+    }
+
+    align() {
+        this._bits = Math.ceil(this._bits / 8) * 8;
+    }
+}
+
+function uint(value: number, size: number) {
+    const bytes: number[] = [];
+
+    for (let i = size - 1; i >= 0; i--) {
+        bytes.push(Math.floor(value / Math.pow(256, i)) % 256);
+    }
+
+    return bytes;
+}
+
+// GRIB2 signed integers keep the sign in the most significant bit
+function int(value: number, size: number) {
+    return uint(value < 0 ? Math.pow(2, size * 8 - 1) - value : value, size);
+}
+
+function float32(value: number) {
+    const view = new DataView(new ArrayBuffer(4));
+
+    view.setFloat32(0, value);
+
+    return [view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3)];
+}
+
+function bitsFor(max: number) {
+    let bits = 0;
+
+    while (Math.pow(2, bits) <= max) {
+        bits++;
+    }
+
+    return bits;
+}
+
+function section(number: number, body: number[]) {
+    return [...uint(body.length + 5, 4), number, ...body];
+}
+
+function micro(degrees: number) {
+    return Math.round(degrees * 1e6);
+}
+
+function simplePacking(scaled: number[]) {
+    const reference = Math.min(...scaled);
+    const bits = bitsFor(Math.max(...scaled) - reference);
+    const writer = new BitWriter();
+
+    scaled.forEach((value) => writer.write(value - reference, bits));
+
+    return { reference, bits, template: [] as number[], data: writer.bytes };
+}
+
+/**
+ * Complex packing of the first order differences, in two groups
+ */
+function complexPacking(scaled: number[]) {
+    // packed values are unsigned, negative values come from the reference
+    const reference = Math.min(...scaled);
+    const packed = scaled.map((value) => value - reference);
+    const differences = packed.map((value, i) => (i === 0 ? 0 : value - packed[i - 1]));
+    const minimum = Math.min(...differences.slice(1));
+    const shifted = differences.map((difference, i) => (i === 0 ? 0 : difference - minimum));
+
+    const middle = Math.ceil(shifted.length / 2);
+    const groups = [shifted.slice(0, middle), shifted.slice(middle)];
+    const references = groups.map((group) => Math.min(...group));
+    const widths = groups.map((group, g) => bitsFor(Math.max(...group) - references[g]));
+    const lengths = groups.map((group) => group.length);
+
+    const referenceBits = Math.max(1, bitsFor(Math.max(...references)));
+    const widthBits = Math.max(1, bitsFor(Math.max(...widths)));
+    const lengthBits = Math.max(1, bitsFor(Math.max(...lengths)));
+    const extraOctets = 2;
+
+    const writer = new BitWriter();
+
+    writer.write(packed[0], extraOctets * 8);
+    writer.write(minimum < 0 ? Math.pow(2, extraOctets * 8 - 1) - minimum : minimum, extraOctets * 8);
+    references.forEach((reference) => writer.write(reference, referenceBits));
+    writer.align();
+    widths.forEach((width) => writer.write(width, widthBits));
+    writer.align();
+    lengths.forEach((length) => writer.write(length, lengthBits));
+    writer.align();
+    groups.forEach((group, g) => group.forEach((value) => writer.write(value - references[g], widths[g])));
+
+    const template = [
+        // group splitting method, no missing value management, substitutes
+        1,
+        0,
+        ...uint(0, 4),
+        ...uint(0, 4),
+        ...uint(groups.length, 4),
+        // group width reference and bits
+        0,
+        widthBits,
+        // group length reference, increment, last length and bits
+        ...uint(0, 4),
+        1,
+        ...uint(lengths[lengths.length - 1], 4),
+        lengthBits,
+        // spatial differencing order and extra octets
+        1,
+        extraOctets
+    ];
+
+    return { reference, bits: referenceBits, template, data: writer.bytes };
+}
+
+function encodeMessage(fixture: GRIB2Fixture) {
+    const count = fixture.nx * fixture.ny;
+    const decimalScale = fixture.decimalScale ?? 0;
+    const present = fixture.values.filter((value): value is number => value !== null);
+    const scaled = present.map((value) => Math.round(value * Math.pow(10, decimalScale)));
+    const complex = fixture.packing === "complex";
+    const packing = complex ? complexPacking(scaled) : simplePacking(scaled);
+
+    const identification = section(1, [...uint(7, 2), ...uint(0, 2), 2, 1, 1, ...uint(2024, 2), 1, 15, 6, 0, 0, 0, 1]);
+
+    const grid = section(3, [
+        0,
+        ...uint(count, 4),
+        0,
+        0,
+        ...uint(fixture.templates?.grid ?? 0, 2),
+        // shape of the earth and its radii
+        6,
+        ...new Array(15).fill(0),
+        ...uint(fixture.nx, 4),
+        ...uint(fixture.ny, 4),
+        // basic angle and subdivisions: micro degrees
+        ...uint(0, 4),
+        ...uint(0xffffffff, 4),
+        ...int(micro(fixture.la1), 4),
+        ...int(micro(fixture.lo1), 4),
+        48,
+        ...int(micro(fixture.la2), 4),
+        ...int(micro(fixture.lo2), 4),
+        ...uint(micro(fixture.dx), 4),
+        ...uint(micro(fixture.dy), 4),
+        fixture.scanMode ?? 0
+    ]);
+
+    const product = section(4, [
+        ...uint(0, 2),
+        ...uint(fixture.templates?.product ?? 0, 2),
+        2,
+        fixture.parameterNumber,
+        2,
+        0,
+        0,
+        ...uint(0, 2),
+        0,
+        // hours
+        1,
+        ...int(fixture.forecastHours ?? 0, 4),
+        fixture.surfaceType ?? 103,
+        0,
+        ...int(fixture.surfaceValue ?? 10, 4),
+        255,
+        0,
+        ...uint(0, 4)
+    ]);
+
+    const representation = section(5, [
+        ...uint(present.length, 4),
+        ...uint(fixture.templates?.representation ?? (complex ? 3 : 0), 2),
+        ...float32(packing.reference),
+        ...int(0, 2),
+        ...int(decimalScale, 2),
+        packing.bits,
+        0,
+        ...packing.template
+    ]);
+
+    const missing = present.length < count;
+    const bitmap = new BitWriter();
+
+    if (missing) {
+        fixture.values.forEach((value) => bitmap.write(value === null ? 0 : 1, 1));
+    }
+
+    const bitmapSection = section(6, missing ? [0, ...bitmap.bytes] : [255]);
+    const data = section(7, packing.data);
+    const end = [0x37, 0x37, 0x37, 0x37];
+
+    const body = [...identification, ...grid, ...product, ...representation, ...bitmapSection, ...data, ...end];
+    const length = 16 + body.length;
+
+    return [0x47, 0x52, 0x49, 0x42, 0, 0, 0, 2, ...uint(length, 8), ...body];
+}
+
+/**
+ * GRIB2 file of one message per fixture
+ * @param fixtures
+ */
+export function encodeGRIB2(fixtures: GRIB2Fixture[]) {
+    const bytes = fixtures.flatMap((fixture) => encodeMessage(fixture));
+
+    return new Uint8Array(bytes).buffer;
+}
@@ -0,0 +1,154 @@
+/**
+ * Encoder of small NetCDF classic (CDF-1) files without a record dimension, the fixtures of the NetCDF tests.
+ */
+
+export interface NetCDFVariableFixture {
+    name: string;
+    dimensions: string[];
+    // row-major, the last dimension varying fastest
+    values: number[];
+    type?: "float" | "double";
+    attributes?: { [name: string]: string | number };
+}
+
+const NC_DIMENSION = 10;
+const NC_VARIABLE = 11;
+const NC_ATTRIBUTE = 12;
+
+const NC_CHAR = 2;
+const NC_FLOAT = 5;
+const NC_DOUBLE = 6;
+
+class ByteWriter {
+    bytes: number[] = [];
+
+    int(value: number) {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setInt32(0, value);
+        this.raw(view);
+    }
+
+    float(value: number) {
+        const view = new DataView(new ArrayBuffer(4));
+        view.setFloat32(0, value);
+        this.raw(view);
+    }
+
+    double(value: number) {
+        const view = new DataView(new ArrayBuffer(8));
+        view.setFloat64(0, value);
+        this.raw(view);
+    }
+
+    // characters padded to 4 bytes, after their count
+    name(text: string) {
+        this.int(text.length);
+        this.chars(text);
+    }
+
+    chars(text: string) {
+        for (let i = 0; i < text.length; i++) {
+            this.bytes.push(text.charCodeAt(i));
+        }
+
+        this.pad();
+    }
+
+    pad() {
+        while (this.bytes.length % 4 !== 0) {
+            this.bytes.push(0);
+        }
+    }
+
+    private raw(view: DataView) {
+        for (let i = 0; i < view.byteLength; i++) {
+            this.bytes.push(view.getUint8(i));
+        }
+    }
+}
+
+function writeAttributes(writer: ByteWriter, attributes: { [name: string]: string | number } = {}) {
+    const names = Object.keys(attributes);
+
+    writer.int(names.length === 0 ? 0 : NC_ATTRIBUTE);
+    writer.int(names.length);
+
+    names.forEach((name) => {
+        const value = attributes[name];
+
+        writer.name(name);
+
+        if (typeof value === "string") {
+            writer.int(NC_CHAR);
+            writer.int(value.length);
+            writer.chars(value);
+        } else {
+            writer.int(NC_DOUBLE);
+            writer.int(1);
+            writer.double(value);
+        }
+    });
+}
+
+function header(dimensions: { [name: string]: number }, variables: NetCDFVariableFixture[], begins: number[]) {
+    const writer = new ByteWriter();
+    const names = Object.keys(dimensions);
+
+    writer.chars("CDF\x01");
+    writer.int(0);
+
+    writer.int(NC_DIMENSION);
+    writer.int(names.length);
+    names.forEach((name) => {
+        writer.name(name);
+        writer.int(dimensions[name]);
+    });
+
+    // no global attribute
+    writer.int(0);
+    writer.int(0);
+
+    writer.int(NC_VARIABLE);
+    writer.int(variables.length);
+    variables.forEach((variable, k) => {
+        const size = variable.values.length * (variable.type === "double" ? 8 : 4);
+
+        writer.name(variable.name);
+        writer.int(variable.dimensions.length);
+        variable.dimensions.forEach((dimension) => writer.int(names.indexOf(dimension)));
+        writeAttributes(writer, variable.attributes);
+        writer.int(variable.type === "double" ? NC_DOUBLE : NC_FLOAT);
+        writer.int(size);
+        writer.int(begins[k]);
+    });
+
+    return writer.bytes;
+}
+
+/**
+ * Encode the variables, stored one after another behind the header
+ * @param dimensions sizes of the dimensions by name
+ * @param variables
+ */
+export function encodeNetCDF(dimensions: { [name: string]: number }, variables: NetCDFVariableFixture[]) {
+    // the header has the same length whatever the offsets
+    let offset = header(dimensions, variables, new Array(variables.length).fill(0)).length;
+
+    const begins = variables.map((variable) => {
+        const begin = offset;
+
+        offset += variable.values.length * (variable.type === "double" ? 8 : 4);
+
+        return begin;
+    });
+
+    const writer = new ByteWriter();
+
+    writer.bytes = header(dimensions, variables, begins);
+
+    variables.forEach((variable) => {
+        variable.values.forEach((value) => (variable.type === "double" ? writer.double(value) : writer.float(value)));
+    });
+
+    return new Uint8Array(writer.bytes).buffer;
+}